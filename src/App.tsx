@@ -1,39 +1,63 @@
 import { Navigate, Route, Routes } from "react-router-dom";
+import { ReauthDialog } from "./components/ReauthDialog";
+import { hasRole } from "./lib/roles";
 import { useAppContext } from "./store/AppContext";
 import { LoginPage } from "./pages/LoginPage";
 import { WizardPage } from "./pages/WizardPage";
 import { AdminPage } from "./pages/AdminPage";
+import { BoardPage } from "./pages/BoardPage";
+import { StandingsPage } from "./pages/StandingsPage";
+import type { Role } from "./types";
 
-function Protected({ children }: { children: JSX.Element }): JSX.Element {
-  const { auth } = useAppContext();
+/**
+ * Requires a signed-in account and, once the data sheet's Allowlist has been read, at least `minRole`. Until the role
+ * is known the page loads the Allowlist itself and enforces the same rule.
+ */
+function Protected({ children, minRole }: { children: JSX.Element; minRole?: Role }): JSX.Element {
+  const { auth, role } = useAppContext();
   if (!auth) {
     return <Navigate to="/login" replace />;
   }
+  if (minRole && role && !hasRole(role, minRole)) {
+    return <Navigate to="/wizard" replace />;
+  }
   return children;
 }
 
 export function App(): JSX.Element {
   return (
-    <Routes>
-      <Route path="/login" element={<LoginPage />} />
-      <Route
-        path="/wizard"
-        element={
-          <Protected>
-            <WizardPage />
-          </Protected>
-        }
-      />
-      <Route
-        path="/admin"
-        element={
-          <Protected>
-            <AdminPage />
-          </Protected>
-        }
-      />
-      <Route path="*" element={<Navigate to="/wizard" replace />} />
-    </Routes>
+    <>
+      <ReauthDialog />
+      <Routes>
+        <Route path="/login" element={<LoginPage />} />
+        <Route path="/board" element={<BoardPage />} />
+        <Route
+          path="/wizard"
+          element={
+            <Protected>
+              <WizardPage />
+            </Protected>
+          }
+        />
+        <Route
+          path="/standings"
+          element={
+            <Protected>
+              <StandingsPage />
+            </Protected>
+          }
+        />
+        <Route
+          path="/admin"
+          element={
+            <Protected minRole="admin">
+              <AdminPage />
+            </Protected>
+          }
+        />
+        <Route path="*" element={<Navigate to="/wizard" replace />} />
+      </Routes>
+    </>
   );
 }
 
@@ -1,8 +1,9 @@
 import { Link, useLocation, useNavigate } from "react-router-dom";
+import { hasRole } from "../lib/roles";
 import { useAppContext } from "../store/AppContext";
 
 export function AppHeader(): JSX.Element {
-  const { auth, setAuth } = useAppContext();
+  const { auth, setAuth, role } = useAppContext();
   const location = useLocation();
   const navigate = useNavigate();
 
@@ -15,12 +16,20 @@ export function AppHeader(): JSX.Element {
         <Link className={location.pathname === "/wizard" ? "active" : ""} to="/wizard">
           Wizard
         </Link>
-        <Link className={location.pathname === "/admin" ? "active" : ""} to="/admin">
-          Admin
+        <Link className={location.pathname === "/standings" ? "active" : ""} to="/standings">
+          Standings
         </Link>
+        {role && !hasRole(role, "admin") ? null : (
+          <Link className={location.pathname === "/admin" ? "active" : ""} to="/admin">
+            Admin
+          </Link>
+        )}
       </nav>
       <div className="user-box">
-        <span>{auth?.email}</span>
+        <span>
+          {auth?.email}
+          {role ? ` (${role})` : ""}
+        </span>
         <button
           type="button"
           onClick={() => {
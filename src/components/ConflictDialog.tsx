@@ -0,0 +1,66 @@
+import type { DataRevision } from "../types";
+
+type ConflictDialogProps = {
+  expected: number;
+  remote: DataRevision;
+  details?: string[];
+  /** Omit (with `onMerge`) for saves that have nothing to merge; the dialog then offers reload or overwrite only. */
+  mergeLabel?: string;
+  mergeDisabledReason?: string;
+  busy?: boolean;
+  onReload: () => void;
+  onMerge?: () => void;
+  onForce: () => void;
+  onCancel: () => void;
+};
+
+export function ConflictDialog({
+  expected,
+  remote,
+  details = [],
+  mergeLabel,
+  mergeDisabledReason,
+  busy = false,
+  onReload,
+  onMerge,
+  onForce,
+  onCancel
+}: ConflictDialogProps): JSX.Element {
+  const origin = [remote.updatedBy && `saved by ${remote.updatedBy}`, remote.updatedUtc && `at ${remote.updatedUtc}`]
+    .filter(Boolean)
+    .join(" ");
+  return (
+    <div className="dialog-backdrop" role="presentation">
+      <section className="card dialog" role="alertdialog" aria-labelledby="conflict-title">
+        <h3 id="conflict-title">Someone else saved this data sheet</h3>
+        <p>
+          You loaded revision {expected}; the sheet is now at revision {remote.revision}
+          {origin ? ` (${origin})` : ""}.
+        </p>
+        {remote.note ? <p className="hint">Remote change: {remote.note}</p> : null}
+        {details.map((line) => (
+          <p key={line} className="hint">
+            {line}
+          </p>
+        ))}
+        {onMerge && mergeDisabledReason ? <p className="hint">{mergeDisabledReason}</p> : null}
+        <div className="actions-row">
+          <button type="button" onClick={onReload} disabled={busy}>
+            Reload Remote
+          </button>
+          {onMerge ? (
+            <button type="button" onClick={onMerge} disabled={busy || !!mergeDisabledReason}>
+              {mergeLabel || "Merge"}
+            </button>
+          ) : null}
+          <button type="button" onClick={onForce} disabled={busy}>
+            Force Overwrite
+          </button>
+          <button type="button" onClick={onCancel} disabled={busy}>
+            Cancel
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { DateTime } from "luxon";
+import { formatPoints } from "../lib/rounding";
+import type { KillTimelineEntry } from "../types";
+
+type KillTimelineProps = {
+  name: string;
+  entries: KillTimelineEntry[];
+  timezone: string;
+  adjustmentPoints?: number;
+  onClose: () => void;
+};
+
+function formatTimestamp(millis: number | undefined, timezone: string): string {
+  if (millis === undefined) {
+    return "-";
+  }
+  return DateTime.fromMillis(millis, { zone: timezone }).toFormat("ccc yyyy-LL-dd HH:mm");
+}
+
+export function KillTimeline({
+  name,
+  entries,
+  timezone,
+  adjustmentPoints = 0,
+  onClose
+}: KillTimelineProps): JSX.Element {
+  const killTotal = entries.reduce((sum, entry) => sum + entry.points, 0);
+  return (
+    <section className="kill-timeline">
+      <div className="kill-timeline-head">
+        <h4>Kills for {name}</h4>
+        <button type="button" onClick={onClose}>
+          Close
+        </button>
+      </div>
+      <p className="hint-inline">
+        {entries.length} kill line(s) worth {formatPoints(killTotal)} pts
+        {adjustmentPoints !== 0 ? `, plus ${formatPoints(adjustmentPoints)} pts of manual adjustments` : ""}. Times are
+        in {timezone}.
+      </p>
+      {entries.length === 0 ? (
+        <p>No kills credited to {name} in this week.</p>
+      ) : (
+        <div className="table-wrap">
+          <table>
+            <thead>
+              <tr>
+                <th>Time</th>
+                <th>Boss</th>
+                <th>Modifiers</th>
+                <th>Points</th>
+                <th>Timer By</th>
+                <th>Line</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => (
+                <tr key={`${entry.lineNumber}-${entry.subtracted ? "sub" : "add"}`}>
+                  <td>{formatTimestamp(entry.timestampUtcMillis, timezone)}</td>
+                  <td>{entry.boss}</td>
+                  <td>{entry.modifiers.join(", ") || "-"}</td>
+                  <td className={entry.subtracted ? "kill-subtracted" : undefined}>
+                    {entry.points > 0 ? "+" : ""}
+                    {formatPoints(entry.points)}
+                    {entry.subtracted ? " (not)" : ""}
+                  </td>
+                  <td>{entry.author || "-"}</td>
+                  <td>{entry.lineNumber}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </section>
+  );
+}
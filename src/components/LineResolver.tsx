@@ -1,5 +1,5 @@
 import { useEffect, useMemo, useState } from "react";
-import type { ParsedLine } from "../types";
+import type { ModifierConfig, ModifierEffect, ParsedLine } from "../types";
 import { getBossSuggestions, getNameSuggestions } from "../lib/suggest";
 
 type LineResolverProps = {
@@ -8,12 +8,15 @@ type LineResolverProps = {
   currentIssueIndex: number;
   canonicalNames: string[];
   canonicalBosses: string[];
+  canonicalModifiers: ModifierConfig[];
   onEditLine: (lineNumber: number, value: string) => void;
   onCheckLine: (lineNumber: number, value: string) => void;
   onDiscardLine: (lineNumber: number) => void;
   onAddBoss: (aliasToken: string, canonicalBoss: string, points: number) => void;
   onAddBossAlias: (aliasToken: string, canonicalBoss: string) => void;
   onAddNameAlias: (aliasToken: string, canonicalName: string) => void;
+  onAddModifier: (token: string, effect: ModifierEffect, value: number) => void;
+  canEditSetup: boolean;
   onNextIssue: () => void;
 };
 
@@ -23,12 +26,15 @@ export function LineResolver({
   currentIssueIndex,
   canonicalNames,
   canonicalBosses,
+  canonicalModifiers,
   onEditLine,
   onCheckLine,
   onDiscardLine,
   onAddBoss,
   onAddBossAlias,
   onAddNameAlias,
+  onAddModifier,
+  canEditSetup,
   onNextIssue
 }: LineResolverProps): JSX.Element {
   const currentParsed = parsedLines[currentIssueIndex];
@@ -36,6 +42,8 @@ export function LineResolver({
   const [selectedCanonical, setSelectedCanonical] = useState("");
   const [newBossName, setNewBossName] = useState("");
   const [newBossPoints, setNewBossPoints] = useState("1");
+  const [newModifierEffect, setNewModifierEffect] = useState<ModifierEffect>("bonus");
+  const [newModifierValue, setNewModifierValue] = useState("1");
 
   useEffect(() => {
     if (!currentParsed) {
@@ -45,10 +53,13 @@ export function LineResolver({
     setSelectedCanonical("");
     setNewBossName("");
     setNewBossPoints("1");
+    setNewModifierEffect("bonus");
+    setNewModifierValue("1");
   }, [currentParsed]);
 
   const issue = currentParsed?.issues[0];
   const token = issue?.token || "";
+  const existingModifier = canonicalModifiers.find((modifier) => modifier.synonym === selectedCanonical);
 
   const suggestions = useMemo(() => {
     if (issue?.type === "UnknownName") {
@@ -141,7 +152,13 @@ export function LineResolver({
         ))}
       </div>
 
-      {issue && (issue.type === "UnknownName" || issue.type === "UnknownBoss") ? (
+      {issue && !canEditSetup && ["UnknownName", "UnknownBoss", "UnknownModifier"].includes(issue.type) ? (
+        <p className="hint-inline">
+          Only admins can add aliases, bosses or modifiers. Edit the line to a known value or discard it.
+        </p>
+      ) : null}
+
+      {canEditSetup && issue && (issue.type === "UnknownName" || issue.type === "UnknownBoss") ? (
         <label>
           Map to canonical value
           <select value={selectedCanonical} onChange={(event) => setSelectedCanonical(event.target.value)}>
@@ -155,7 +172,7 @@ export function LineResolver({
         </label>
       ) : null}
 
-      {issue?.type === "UnknownName" ? (
+      {canEditSetup && issue?.type === "UnknownName" ? (
         <div className="actions-row">
           <button
             type="button"
@@ -167,7 +184,59 @@ export function LineResolver({
         </div>
       ) : null}
 
-      {issue?.type === "UnknownBoss" ? (
+      {canEditSetup && issue?.type === "UnknownModifier" ? (
+        <div className="stack">
+          <label>
+            Same effect as existing modifier
+            <select value={selectedCanonical} onChange={(event) => setSelectedCanonical(event.target.value)}>
+              <option value="">Select...</option>
+              {canonicalModifiers.map((modifier) => (
+                <option key={modifier.synonym} value={modifier.synonym}>
+                  {modifier.synonym} ({modifier.effect} {modifier.value})
+                </option>
+              ))}
+            </select>
+          </label>
+          <div className="actions-row">
+            <button
+              type="button"
+              disabled={!existingModifier}
+              onClick={() => existingModifier && onAddModifier(token, existingModifier.effect, existingModifier.value)}
+            >
+              Add Modifier Synonym
+            </button>
+          </div>
+          <label>
+            New Modifier Effect
+            <select
+              value={newModifierEffect}
+              onChange={(event) => setNewModifierEffect(event.target.value as ModifierEffect)}
+            >
+              <option value="bonus">Additive bonus</option>
+              <option value="multiplier">Multiplier</option>
+              <option value="override">Override points</option>
+            </select>
+          </label>
+          <label>
+            Value
+            <input
+              type="number"
+              step="any"
+              value={newModifierValue}
+              onChange={(event) => setNewModifierValue(event.target.value)}
+            />
+          </label>
+          <button
+            type="button"
+            disabled={!token || !Number.isFinite(Number(newModifierValue)) || !newModifierValue.trim()}
+            onClick={() => onAddModifier(token, newModifierEffect, Number(newModifierValue))}
+          >
+            Add Modifier
+          </button>
+        </div>
+      ) : null}
+
+      {canEditSetup && issue?.type === "UnknownBoss" ? (
         <div className="stack">
           <div className="actions-row">
             <button
@@ -0,0 +1,45 @@
+import { useState } from "react";
+import { useAppContext } from "../store/AppContext";
+
+export function ReauthDialog(): JSX.Element | null {
+  const { auth, reauthPending, continueReauth, cancelReauth } = useAppContext();
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+
+  if (!reauthPending) {
+    return null;
+  }
+
+  async function handleContinue(): Promise<void> {
+    setError("");
+    try {
+      setBusy(true);
+      await continueReauth();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to renew the Google session.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div className="dialog-backdrop" role="presentation">
+      <section className="card dialog" role="alertdialog" aria-labelledby="reauth-title">
+        <h3 id="reauth-title">Google session expired</h3>
+        <p>
+          Sign in again as {auth?.email || "the same account"} to finish the pending request. Your wizard progress and
+          resolver work stay as they are.
+        </p>
+        {error ? <p className="error">{error}</p> : null}
+        <div className="actions-row">
+          <button type="button" onClick={handleContinue} disabled={busy}>
+            {busy ? "Signing in..." : "Continue with Google"}
+          </button>
+          <button type="button" onClick={cancelReauth} disabled={busy}>
+            Cancel
+          </button>
+        </div>
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+type SparklineProps = {
+  /** One value per week, oldest first; null marks a week without a stored row and breaks the line. */
+  values: Array<number | null>;
+  width?: number;
+  height?: number;
+};
+
+const PADDING = 2;
+
+export function Sparkline({ values, width = 96, height = 24 }: SparklineProps): JSX.Element {
+  const present = values.filter((value): value is number => value !== null);
+  const min = Math.min(0, ...present);
+  const max = Math.max(1, ...present);
+  const step = values.length > 1 ? (width - PADDING * 2) / (values.length - 1) : 0;
+  const toPoint = (value: number, index: number) => {
+    const x = values.length > 1 ? PADDING + index * step : width / 2;
+    const y = PADDING + (height - PADDING * 2) * (1 - (value - min) / (max - min));
+    return { x, y };
+  };
+
+  const segments: Array<Array<{ x: number; y: number }>> = [[]];
+  values.forEach((value, index) => {
+    if (value === null) {
+      segments.push([]);
+      return;
+    }
+    segments[segments.length - 1].push(toPoint(value, index));
+  });
+  const lastIndex = values.reduce<number>((found, value, index) => (value === null ? found : index), -1);
+  const last = lastIndex === -1 ? null : toPoint(values[lastIndex]!, lastIndex);
+
+  return (
+    <svg
+      className="sparkline"
+      width={width}
+      height={height}
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={present.length > 0 ? `Weekly points: ${values.map((value) => value ?? "-").join(", ")}` : "No data"}
+    >
+      {segments
+        .filter((segment) => segment.length > 1)
+        .map((segment, index) => (
+          <polyline key={index} points={segment.map((point) => `${point.x},${point.y}`).join(" ")} />
+        ))}
+      {segments
+        .filter((segment) => segment.length === 1)
+        .map((segment, index) => (
+          <circle key={`dot-${index}`} cx={segment[0].x} cy={segment[0].y} r={1.5} />
+        ))}
+      {last ? <circle className="sparkline-last" cx={last.x} cy={last.y} r={2} /> : null}
+    </svg>
+  );
+}
@@ -1,4 +1,6 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { onSheetsActivity } from "../lib/sheets";
+import type { SheetsActivity } from "../lib/sheets";
 
 type StatusBannerProps = {
   status?: string;
@@ -7,12 +9,28 @@ type StatusBannerProps = {
   onClearStatus?: () => void;
 };
 
+function describeActivity(activity: SheetsActivity): string {
+  const seconds = Math.max(1, Math.ceil(("delayMs" in activity ? activity.delayMs : 0) / 1000));
+  if (activity.kind === "throttled") {
+    return `Pacing requests to stay under the Google Sheets quota; continuing in ${seconds}s...`;
+  }
+  if (activity.kind === "retrying") {
+    const reason = activity.status ? `Google Sheets returned ${activity.status}` : "Connection to Google Sheets failed";
+    return `${reason}; retrying in ${seconds}s (attempt ${activity.attempt} of ${activity.maxAttempts})...`;
+  }
+  return "";
+}
+
 export function StatusBanner({
   status,
   error,
   kind = "success",
   onClearStatus
 }: StatusBannerProps): JSX.Element | null {
+  const [activity, setActivity] = useState("");
+
+  useEffect(() => onSheetsActivity((next) => setActivity(describeActivity(next))), []);
+
   useEffect(() => {
     if (!status || kind !== "success") {
       return;
@@ -23,6 +41,9 @@ export function StatusBanner({
     return () => window.clearTimeout(timer);
   }, [status, kind, onClearStatus]);
 
+  if (activity) {
+    return <div className="status-banner info">{activity}</div>;
+  }
   if (error) {
     return <div className="status-banner error">{error}</div>;
   }
@@ -1,12 +1,29 @@
 import { useMemo, useState } from "react";
-import type { WeekSummaryRow } from "../types";
+import { formatPoints } from "../lib/rounding";
+import { tierRank } from "../lib/tiers";
+import type { ActivityTier, WeekSummaryRow } from "../types";
 
 type WeekTableProps = {
   rows: WeekSummaryRow[];
   bossColumns: string[];
+  totalLabel?: string;
+  emptyLabel?: string;
+  tiers?: ActivityTier[];
+  streakLabel?: string;
+  selectedName?: string;
+  onSelectRow?: (name: string) => void;
 };
 
-export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
+export function WeekTable({
+  rows,
+  bossColumns,
+  totalLabel = "Total Points",
+  emptyLabel = "No players with > 0 points this week.",
+  tiers = [],
+  streakLabel = "Consecutive Weeks at Activity Level",
+  selectedName = "",
+  onSelectRow
+}: WeekTableProps): JSX.Element {
   const [sortKey, setSortKey] = useState<string>("totalPoints");
   const [sortDirection, setSortDirection] = useState<"asc" | "desc">("desc");
   const [query, setQuery] = useState("");
@@ -43,11 +60,23 @@ export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
       } else if (sortKey === "totalPoints") {
         cmp = a.totalPoints - b.totalPoints;
       } else if (sortKey === "activityLevel") {
-        cmp = a.activityLevel.localeCompare(b.activityLevel);
+        cmp =
+          tierRank(a.activityLevel, tiers) - tierRank(b.activityLevel, tiers) ||
+          a.activityLevel.localeCompare(b.activityLevel);
       } else if (sortKey === "streak") {
         cmp = a.streak - b.streak;
+      } else if (sortKey === "longestStreak") {
+        cmp = (a.longestStreak || 0) - (b.longestStreak || 0);
       } else if (sortKey === "last3WeeksTotal") {
         cmp = a.last3WeeksTotal - b.last3WeeksTotal;
+      } else if (sortKey === "carriedBalance") {
+        cmp = (a.carriedBalance || 0) - (b.carriedBalance || 0);
+      } else if (sortKey === "spent") {
+        cmp = (a.spent || 0) - (b.spent || 0);
+      } else if (sortKey === "balance") {
+        cmp = (a.balance || 0) - (b.balance || 0);
+      } else if (sortKey === "adjustmentPoints") {
+        cmp = (a.adjustmentPoints || 0) - (b.adjustmentPoints || 0);
       } else if (sortKey.startsWith("boss:")) {
         const boss = sortKey.slice(5);
         cmp = (a.bossCounts[boss] || 0) - (b.bossCounts[boss] || 0);
@@ -58,7 +87,7 @@ export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
       return cmp * factor;
     });
     return copy;
-  }, [rows, sortDirection, sortKey, query]);
+  }, [rows, sortDirection, sortKey, query, tiers]);
 
   function renderSortLabel(label: string, key: string): string {
     if (sortKey !== key) {
@@ -69,14 +98,31 @@ export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
 
   function formatBossCell(count: number, points: number): string {
     const ptLabel = Math.abs(points) === 1 ? "pt" : "pts";
-    return `${count} - ${points} ${ptLabel}`;
+    return `${count} - ${formatPoints(points)} ${ptLabel}`;
+  }
+
+  function renderActivity(level: string): JSX.Element | string {
+    const color = tiers.find((tier) => tier.name === level)?.color;
+    if (!color) {
+      return level;
+    }
+    return (
+      <span className="tier-badge" style={{ borderColor: color, color }}>
+        {level}
+      </span>
+    );
   }
 
   if (rows.length === 0) {
     return <p>No weekly results yet.</p>;
   }
 
-  const columnCount = 5 + bossColumns.length;
+  // Snapshots published before adjustments, balances and spending existed lack those fields, hence the `|| 0`.
+  const showAdjustments = rows.some((row) => (row.adjustmentPoints || 0) !== 0);
+  const showBalances = rows.some(
+    (row) => (row.balance || 0) !== 0 || (row.carriedBalance || 0) !== 0 || (row.spent || 0) !== 0
+  );
+  const columnCount = 6 + (showAdjustments ? 1 : 0) + (showBalances ? 3 : 0) + bossColumns.length;
   const tableBody = (
     <div className="table-wrap">
       <table>
@@ -89,7 +135,7 @@ export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
             </th>
             <th>
               <button type="button" className="th-sort-btn" onClick={() => onSort("totalPoints")}>
-                {renderSortLabel("Total Points", "totalPoints")}
+                {renderSortLabel(totalLabel, "totalPoints")}
               </button>
             </th>
             <th>
@@ -99,7 +145,12 @@ export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
             </th>
             <th>
               <button type="button" className="th-sort-btn" onClick={() => onSort("streak")}>
-                {renderSortLabel("Consecutive Weeks at Activity Level", "streak")}
+                {renderSortLabel(streakLabel, "streak")}
+              </button>
+            </th>
+            <th>
+              <button type="button" className="th-sort-btn" onClick={() => onSort("longestStreak")}>
+                {renderSortLabel("Longest Streak", "longestStreak")}
               </button>
             </th>
             <th>
@@ -107,6 +158,32 @@ export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
                 {renderSortLabel("Last 3 Weeks Total", "last3WeeksTotal")}
               </button>
             </th>
+            {showAdjustments ? (
+              <th>
+                <button type="button" className="th-sort-btn" onClick={() => onSort("adjustmentPoints")}>
+                  {renderSortLabel("Adjustments", "adjustmentPoints")}
+                </button>
+              </th>
+            ) : null}
+            {showBalances ? (
+              <>
+                <th>
+                  <button type="button" className="th-sort-btn" onClick={() => onSort("carriedBalance")}>
+                    {renderSortLabel("Carried Balance", "carriedBalance")}
+                  </button>
+                </th>
+                <th>
+                  <button type="button" className="th-sort-btn" onClick={() => onSort("spent")}>
+                    {renderSortLabel("Spent", "spent")}
+                  </button>
+                </th>
+                <th>
+                  <button type="button" className="th-sort-btn" onClick={() => onSort("balance")}>
+                    {renderSortLabel("Balance", "balance")}
+                  </button>
+                </th>
+              </>
+            ) : null}
             {bossColumns.map((boss) => (
               <th key={boss}>
                 <button type="button" className="th-sort-btn" onClick={() => onSort(`boss:${boss}`)}>
@@ -119,16 +196,31 @@ export function WeekTable({ rows, bossColumns }: WeekTableProps): JSX.Element {
         <tbody>
           {sortedRows.length === 0 ? (
             <tr>
-              <td colSpan={columnCount}>No players with &gt; 0 points this week.</td>
+              <td colSpan={columnCount}>{emptyLabel}</td>
             </tr>
           ) : (
             sortedRows.map((row) => (
-              <tr key={row.name}>
-              <td className="sticky-col">{row.name}</td>
-                <td>{row.totalPoints}</td>
-                <td>{row.activityLevel}</td>
+              <tr
+                key={row.name}
+                className={
+                  onSelectRow ? `clickable-row${row.name === selectedName ? " selected-row" : ""}` : undefined
+                }
+                onClick={onSelectRow ? () => onSelectRow(row.name) : undefined}
+              >
+                <td className="sticky-col">{row.name}</td>
+                <td>{formatPoints(row.totalPoints)}</td>
+                <td>{renderActivity(row.activityLevel)}</td>
                 <td>{row.streak}</td>
-                <td>{row.last3WeeksTotal}</td>
+                <td>{row.longestStreak || row.streak}</td>
+                <td>{formatPoints(row.last3WeeksTotal)}</td>
+                {showAdjustments ? <td>{formatPoints(row.adjustmentPoints || 0)}</td> : null}
+                {showBalances ? (
+                  <>
+                    <td>{formatPoints(row.carriedBalance || 0)}</td>
+                    <td>{formatPoints(row.spent || 0)}</td>
+                    <td>{formatPoints(row.balance || 0)}</td>
+                  </>
+                ) : null}
                 {bossColumns.map((boss) => {
                   const count = row.bossCounts[boss] || 0;
                   const points = row.bossPoints[boss] || 0;
@@ -1,11 +1,13 @@
-import type { TabSchema } from "./types";
+import type { ModifierConfig, TabSchema } from "./types";
 
 export const SHEET_SCHEMAS: TabSchema[] = [
-  { name: "Allowlist", headers: ["Email"] },
+  { name: "Allowlist", headers: ["Email", "Role"] },
   { name: "Config", headers: ["Key", "Value"] },
-  { name: "Bosses", headers: ["Boss", "Points"] },
+  { name: "Bosses", headers: ["Boss", "Points", "EffectiveFrom"] },
   { name: "BossAliases", headers: ["Alias", "Boss"] },
   { name: "NameAliases", headers: ["Alias", "Name"] },
+  { name: "Modifiers", headers: ["Synonym", "Effect", "Value"] },
+  { name: "ActivityTiers", headers: ["Tier", "MinPoints", "Color"] },
   {
     name: "Weeks",
     headers: [
@@ -20,18 +22,72 @@ export const SHEET_SCHEMAS: TabSchema[] = [
   },
   {
     name: "WeekUserTotals",
-    headers: ["WeekId", "Name", "TotalPoints", "ActivityLevel", "Streak"]
+    headers: ["WeekId", "Name", "TotalPoints", "ActivityLevel", "Streak", "LongestStreak"]
   },
   {
     name: "WeekBossBreakdown",
     headers: ["WeekId", "Name", "Boss", "Points", "Count"]
-  }
+  },
+  {
+    name: "WeekEvents",
+    headers: [
+      "WeekId",
+      "LineNumber",
+      "TimestampUTC",
+      "Author",
+      "Boss",
+      "Bonus",
+      "Multiplier",
+      "Override",
+      "AddNames",
+      "SubtractNames"
+    ]
+  },
+  { name: "WeekSources", headers: ["WeekId", "LineNumber", "Text"] },
+  { name: "WeekAdjustments", headers: ["WeekId", "Name", "Points", "Reason"] },
+  { name: "Balances", headers: ["WeekId", "Name", "Carried", "Earned", "Balance", "Spent"] },
+  { name: "Spending", headers: ["WeekId", "Name", "Points", "Note"] },
+  { name: "Meta", headers: ["Key", "Value"] },
+  { name: "AuditLog", headers: ["TimestampUtc", "Email", "Action", "Target", "Before", "After"] }
 ];
 
+export const WEEK_HISTORY_TABS = [
+  "Weeks",
+  "WeekUserTotals",
+  "WeekBossBreakdown",
+  "WeekEvents",
+  "WeekSources",
+  "WeekAdjustments",
+  "Balances"
+];
+
+export const ARCHIVE_SCHEMAS: TabSchema[] = SHEET_SCHEMAS.filter((schema) =>
+  WEEK_HISTORY_TABS.includes(schema.name)
+).map((schema) => ({ name: `Archive${schema.name}`, headers: schema.headers }));
+
 export const DEFAULT_CONFIG: Record<string, string> = {
   week_start: "SUN",
+  week_start_hour: "0",
   activity_low_max: "4",
   activity_medium_max: "9",
-  timezone_default: "America/New_York"
+  timezone_default: "America/New_York",
+  history_max_weeks: "20",
+  history_archive: "off",
+  history_archive_spreadsheet_id: "",
+  balance_decay_percent: "0",
+  balance_minimum: "0",
+  streak_mode: "same_tier",
+  streak_min_tier: "",
+  points_rounding: "ceil",
+  points_decimals: "2"
 };
 
+export const DEFAULT_MODIFIERS: ModifierConfig[] = [
+  { synonym: "brucy", effect: "bonus", value: 5 },
+  { synonym: "brucybonus", effect: "bonus", value: 5 },
+  { synonym: "fail", effect: "multiplier", value: 0.5 },
+  { synonym: "comp", effect: "multiplier", value: 0.5 },
+  { synonym: "double", effect: "multiplier", value: 2 },
+  { synonym: "doublepoints", effect: "multiplier", value: 2 }
+];
+
@@ -0,0 +1,58 @@
+import { DateTime } from "luxon";
+import { formatPoints } from "./rounding";
+import type { AuditAction, AuditEntry, WeekSummaryRow } from "../types";
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  save_week: "Saved week",
+  recalculate_week: "Recalculated week",
+  delete_week: "Deleted week",
+  add_alias: "Added alias",
+  add_boss: "Added boss",
+  add_modifier: "Added modifier",
+  admin_save: "Edited settings"
+};
+
+const MAX_LISTED_ROWS = 3;
+
+export function auditEntry(
+  email: string,
+  action: AuditAction,
+  target: string,
+  before: string,
+  after: string
+): AuditEntry {
+  return { timestampUtc: DateTime.utc().toISO() || "", email, action, target, before, after };
+}
+
+export function toAuditRow(entry: AuditEntry): string[] {
+  return [entry.timestampUtc, entry.email, entry.action, entry.target, entry.before, entry.after];
+}
+
+/** One-line summary of a week's totals, e.g. "14 members, 212 pts". Empty when the week has no rows. */
+export function summarizeWeekTotals(rows: Array<Pick<WeekSummaryRow, "totalPoints">>): string {
+  if (rows.length === 0) {
+    return "";
+  }
+  const total = rows.reduce((sum, row) => sum + row.totalPoints, 0);
+  return `${rows.length} members, ${formatPoints(total)} pts`;
+}
+
+function listRows(rows: string[][]): string {
+  const listed = rows.slice(0, MAX_LISTED_ROWS).map((row) => row.filter(Boolean).join(" | "));
+  const more = rows.length - listed.length;
+  return [...listed, ...(more > 0 ? [`${more} more`] : [])].join("; ");
+}
+
+/**
+ * Compact before/after for a replaced tab: rows that disappeared go in `before`, rows that appeared go in `after`,
+ * so a points change on one boss reads "Dino | 5" -> "Dino | 6".
+ */
+export function summarizeRowChanges(beforeRows: string[][], afterRows: string[][]): { before: string; after: string } {
+  const key = (row: string[]) => row.join("\u0000");
+  const beforeKeys = new Set(beforeRows.map(key));
+  const afterKeys = new Set(afterRows.map(key));
+  return {
+    before: listRows(beforeRows.filter((row) => !afterKeys.has(key(row)))),
+    after: listRows(afterRows.filter((row) => !beforeKeys.has(key(row))))
+  };
+}
@@ -0,0 +1,162 @@
+import type { BalanceRow, BalanceSettings, SpendingRow } from "../types";
+
+type WeeklyTotal = {
+  weekId: string;
+  name: string;
+  totalPoints: number;
+};
+
+function parseNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number((value || "").trim());
+  return (value || "").trim() && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+function roundBalance(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+export function balanceSettingsFromConfig(config: Record<string, string>): BalanceSettings {
+  return {
+    decayPercent: Math.min(100, Math.max(0, parseNumber(config.balance_decay_percent, 0))),
+    minimum: parseNumber(config.balance_minimum, 0)
+  };
+}
+
+/** Applies one week of decay. Decay never pulls a balance below the minimum, and balances already under it stay put. */
+export function decayBalance(balance: number, settings: BalanceSettings): number {
+  if (balance <= settings.minimum) {
+    return balance;
+  }
+  return Math.max(settings.minimum, roundBalance(balance * (1 - settings.decayPercent / 100)));
+}
+
+export function parseBalanceRows(rows: string[][]): BalanceRow[] {
+  return rows
+    .filter((row) => row[0] && row[1])
+    .map((row) => ({
+      weekId: row[0],
+      name: row[1],
+      carried: Number(row[2] || 0),
+      earned: Number(row[3] || 0),
+      balance: Number(row[4] || 0),
+      spent: Number(row[5] || 0)
+    }));
+}
+
+export function toBalanceRow(row: BalanceRow): string[] {
+  return [row.weekId, row.name, String(row.carried), String(row.earned), String(row.balance), String(row.spent)];
+}
+
+/** Reads the Spending tab, skipping rows without a week or name and amounts that are not numbers. */
+export function parseSpendingRows(rows: string[][]): SpendingRow[] {
+  return rows
+    .filter((row) => (row[0] || "").trim() && (row[1] || "").trim() && Number.isFinite(Number(row[2] || 0)))
+    .map((row) => ({
+      weekId: row[0].trim(),
+      name: row[1].trim(),
+      points: Number(row[2] || 0),
+      note: (row[3] || "").trim()
+    }));
+}
+
+function spentByWeek(spending: SpendingRow[]): Map<string, Map<string, number>> {
+  const byWeek = new Map<string, Map<string, number>>();
+  for (const row of spending) {
+    if (!byWeek.has(row.weekId)) {
+      byWeek.set(row.weekId, new Map());
+    }
+    const byName = byWeek.get(row.weekId)!;
+    byName.set(row.name, roundBalance((byName.get(row.name) || 0) + row.points));
+  }
+  return byWeek;
+}
+
+/** True when the stored Spent column of `weekId` still matches the Spending tab, for every member in either. */
+function spentIsCurrent(weekId: string, stored: BalanceRow[], spent: Map<string, number>): boolean {
+  const storedSpent = balancesByName(
+    stored.filter((row) => row.weekId === weekId),
+    (row) => row.spent
+  );
+  return [...new Set([...storedSpent.keys(), ...spent.keys()])].every(
+    (name) => (storedSpent.get(name) || 0) === (spent.get(name) || 0)
+  );
+}
+
+function balancesByName(rows: BalanceRow[], pick: (row: BalanceRow) => number): Map<string, number> {
+  return new Map(rows.map((row) => [row.name, pick(row)]));
+}
+
+/**
+ * Rebuilds the ledger after `changedWeekId` was saved or deleted. Weeks before the change keep their stored rows and
+ * seed the opening balance; every live week from the change onwards is recomputed. Live weeks that have no stored rows
+ * yet (sheets from before balances existed) pull the start back so the ledger is backfilled from there, and so do
+ * weeks whose Spending rows were edited since the ledger last ran.
+ *
+ * When nothing older survives, e.g. after retention purged it, the stored Carried column of the first recomputed week
+ * stands in for the purged history.
+ */
+export function rebuildBalances(
+  liveWeekIds: string[],
+  totals: WeeklyTotal[],
+  stored: BalanceRow[],
+  changedWeekId: string,
+  settings: BalanceSettings,
+  spending: SpendingRow[] = []
+): { fromWeekId: string; rows: BalanceRow[] } {
+  const ascending = [...liveWeekIds].sort((a, b) => a.localeCompare(b));
+  const storedWeeks = new Set(stored.map((row) => row.weekId));
+  const spent = spentByWeek(spending);
+  const firstStale = ascending.find(
+    (weekId) => !storedWeeks.has(weekId) || !spentIsCurrent(weekId, stored, spent.get(weekId) || new Map())
+  );
+  const fromWeekId = firstStale && firstStale < changedWeekId ? firstStale : changedWeekId;
+
+  const previousWeekId = [...storedWeeks]
+    .filter((weekId) => weekId < fromWeekId)
+    .sort((a, b) => a.localeCompare(b))
+    .pop();
+  let balances = new Map<string, number>();
+  let carriedIn: Map<string, number> | null = null;
+  if (previousWeekId) {
+    balances = balancesByName(
+      stored.filter((row) => row.weekId === previousWeekId),
+      (row) => row.balance
+    );
+  } else {
+    const anchor = stored.filter((row) => row.weekId === fromWeekId);
+    if (ascending.includes(fromWeekId)) {
+      carriedIn = balancesByName(anchor, (row) => row.carried);
+    } else {
+      // The anchor week was deleted: keep what it carried in, without its earnings.
+      balances = balancesByName(anchor, (row) => row.carried);
+    }
+  }
+
+  const output: BalanceRow[] = [];
+  for (const weekId of ascending.filter((candidate) => candidate >= fromWeekId)) {
+    const carried =
+      carriedIn ?? new Map(Array.from(balances.entries()).map(([name, value]) => [name, decayBalance(value, settings)]));
+    carriedIn = null;
+    const earnedByName = new Map<string, number>();
+    for (const row of totals) {
+      if (row.weekId === weekId) {
+        earnedByName.set(row.name, (earnedByName.get(row.name) || 0) + row.totalPoints);
+      }
+    }
+    const spentByName = spent.get(weekId) || new Map<string, number>();
+    const next = new Map<string, number>();
+    for (const name of new Set([...carried.keys(), ...earnedByName.keys(), ...spentByName.keys()])) {
+      const carriedValue = carried.get(name) || 0;
+      const earned = earnedByName.get(name) || 0;
+      const spentValue = spentByName.get(name) || 0;
+      if (carriedValue === 0 && earned === 0 && spentValue === 0) {
+        continue;
+      }
+      const balance = roundBalance(carriedValue + earned - spentValue);
+      next.set(name, balance);
+      output.push({ weekId, name, carried: carriedValue, earned, spent: spentValue, balance });
+    }
+    balances = next;
+  }
+  return { fromWeekId, rows: output };
+}
@@ -0,0 +1,215 @@
+import { parseBalanceRows } from "./balances";
+import { computeLast3WeekTotals } from "./compute";
+import type { ActivityTier, StoredWeek, WeekSummaryRow } from "../types";
+
+export const BOARD_SNAPSHOT_VERSION = 1;
+
+export type BoardTable = {
+  rows: WeekSummaryRow[];
+  bossColumns: string[];
+};
+
+export type BoardWeek = BoardTable & {
+  weekId: string;
+  startUtc: string;
+  endUtc: string;
+};
+
+/** Public leaderboard payload, published as JSON so members can read it without Google sign-in. */
+export type BoardSnapshot = {
+  version: number;
+  generatedUtc: string;
+  latestWeek: BoardWeek | null;
+  standings: BoardTable & { weekIds: string[] };
+  /** Absent in snapshots published before tiers were configurable; the table then shows plain labels. */
+  tiers?: ActivityTier[];
+  streakLabel?: string;
+};
+
+function sortRows(rows: WeekSummaryRow[]): WeekSummaryRow[] {
+  return rows.sort((a, b) => b.totalPoints - a.totalPoints || a.name.localeCompare(b.name));
+}
+
+function emptyRow(name: string): WeekSummaryRow {
+  return {
+    name,
+    totalPoints: 0,
+    activityLevel: "",
+    streak: 1,
+    longestStreak: 0,
+    last3WeeksTotal: 0,
+    adjustmentPoints: 0,
+    carriedBalance: 0,
+    spent: 0,
+    balance: 0,
+    bossPoints: {},
+    bossCounts: {}
+  };
+}
+
+function storedWeekIds(totalsRaw: string[][]): string[] {
+  return Array.from(
+    new Set(totalsRaw.map((row) => row[0]).filter((candidate): candidate is string => Boolean(candidate)))
+  ).sort((a, b) => a.localeCompare(b));
+}
+
+function last3Totals(totalsRaw: string[][], weekId: string): Map<string, number> {
+  return computeLast3WeekTotals(
+    totalsRaw
+      .filter((row) => row[0] && row[1] && row[2])
+      .map((row) => ({
+        weekId: row[0],
+        name: row[1],
+        totalPoints: Number(row[2] || 0)
+      })),
+    storedWeekIds(totalsRaw),
+    weekId
+  );
+}
+
+/**
+ * Rebuilds the weekly chart rows for one stored week from the WeekUserTotals, WeekBossBreakdown, WeekAdjustments and
+ * Balances tabs. Stored totals already include adjustments; the adjustment rows only fill the separate column.
+ */
+export function storedWeekRows(
+  weekId: string,
+  totalsRaw: string[][],
+  breakdownRaw: string[][],
+  adjustmentsRaw: string[][] = [],
+  balancesRaw: string[][] = []
+): BoardTable {
+  const bossSet = new Set<string>();
+  const rowMap = new Map<string, WeekSummaryRow>();
+  for (const row of totalsRaw.filter((candidate) => candidate[0] === weekId)) {
+    const name = row[1];
+    rowMap.set(name, {
+      ...emptyRow(name),
+      totalPoints: Number(row[2] || 0),
+      activityLevel: row[3] || "",
+      streak: Number(row[4] || 1),
+      longestStreak: Number(row[5] || row[4] || 1)
+    });
+  }
+  for (const row of breakdownRaw.filter((candidate) => candidate[0] === weekId)) {
+    const name = row[1];
+    const boss = row[2];
+    bossSet.add(boss);
+    if (!rowMap.has(name)) {
+      rowMap.set(name, emptyRow(name));
+    }
+    const item = rowMap.get(name)!;
+    item.bossPoints[boss] = Number(row[3] || 0);
+    item.bossCounts[boss] = Number(row[4] || 0);
+  }
+  for (const row of adjustmentsRaw.filter((candidate) => candidate[0] === weekId && candidate[1])) {
+    const name = row[1];
+    if (!rowMap.has(name)) {
+      rowMap.set(name, emptyRow(name));
+    }
+    rowMap.get(name)!.adjustmentPoints += Number(row[2] || 0);
+  }
+  for (const balance of parseBalanceRows(balancesRaw).filter((candidate) => candidate.weekId === weekId)) {
+    const item = rowMap.get(balance.name);
+    if (item) {
+      item.carriedBalance = balance.carried;
+      item.spent = balance.spent;
+      item.balance = balance.balance;
+    }
+  }
+  const rows = sortRows(Array.from(rowMap.values()));
+  const last3 = last3Totals(totalsRaw, weekId);
+  for (const row of rows) {
+    row.last3WeeksTotal = last3.get(row.name) || row.totalPoints;
+  }
+  return { rows, bossColumns: Array.from(bossSet).sort((a, b) => a.localeCompare(b)) };
+}
+
+/**
+ * Sums every stored week into one row per member. Activity level and streak come from the member's most recent week;
+ * the last-3-weeks column and the balance are measured at the newest stored week.
+ */
+export function buildStandings(
+  totalsRaw: string[][],
+  breakdownRaw: string[][],
+  adjustmentsRaw: string[][] = [],
+  balancesRaw: string[][] = []
+): BoardTable & { weekIds: string[] } {
+  const weekIds = storedWeekIds(totalsRaw);
+  const bossSet = new Set<string>();
+  const standings = new Map<string, WeekSummaryRow>();
+  for (const weekId of weekIds) {
+    const week = storedWeekRows(weekId, totalsRaw, breakdownRaw, adjustmentsRaw);
+    week.bossColumns.forEach((boss) => bossSet.add(boss));
+    for (const row of week.rows) {
+      const current = standings.get(row.name) || emptyRow(row.name);
+      current.totalPoints += row.totalPoints;
+      current.adjustmentPoints += row.adjustmentPoints;
+      current.activityLevel = row.activityLevel;
+      current.streak = row.streak;
+      current.longestStreak = Math.max(current.longestStreak, row.longestStreak);
+      for (const [boss, points] of Object.entries(row.bossPoints)) {
+        current.bossPoints[boss] = (current.bossPoints[boss] || 0) + points;
+      }
+      for (const [boss, count] of Object.entries(row.bossCounts)) {
+        current.bossCounts[boss] = (current.bossCounts[boss] || 0) + count;
+      }
+      standings.set(row.name, current);
+    }
+  }
+  const last3 = weekIds.length > 0 ? last3Totals(totalsRaw, weekIds[weekIds.length - 1]) : new Map<string, number>();
+  const latestBalances = new Map(
+    parseBalanceRows(balancesRaw)
+      .filter((row) => row.weekId === weekIds[weekIds.length - 1])
+      .map((row) => [row.name, row])
+  );
+  const rows = sortRows(Array.from(standings.values()));
+  for (const row of rows) {
+    row.last3WeeksTotal = last3.get(row.name) || 0;
+    row.carriedBalance = latestBalances.get(row.name)?.carried || 0;
+    row.spent = latestBalances.get(row.name)?.spent || 0;
+    row.balance = latestBalances.get(row.name)?.balance || 0;
+  }
+  return { weekIds, rows, bossColumns: Array.from(bossSet).sort((a, b) => a.localeCompare(b)) };
+}
+
+export function buildBoardSnapshot(
+  weeks: StoredWeek[],
+  totalsRaw: string[][],
+  breakdownRaw: string[][],
+  adjustmentsRaw: string[][],
+  balancesRaw: string[][],
+  tiers: ActivityTier[],
+  streakLabel: string,
+  generatedUtc: string
+): BoardSnapshot {
+  const latest = [...weeks].sort((a, b) => b.weekId.localeCompare(a.weekId))[0];
+  return {
+    version: BOARD_SNAPSHOT_VERSION,
+    generatedUtc,
+    latestWeek: latest
+      ? {
+          weekId: latest.weekId,
+          startUtc: latest.startUtc,
+          endUtc: latest.endUtc,
+          ...storedWeekRows(latest.weekId, totalsRaw, breakdownRaw, adjustmentsRaw, balancesRaw)
+        }
+      : null,
+    standings: buildStandings(totalsRaw, breakdownRaw, adjustmentsRaw, balancesRaw),
+    tiers,
+    streakLabel
+  };
+}
+
+export function parseBoardSnapshot(value: unknown): BoardSnapshot {
+  const snapshot = value as Partial<BoardSnapshot> | null;
+  if (!snapshot || typeof snapshot !== "object" || typeof snapshot.version !== "number") {
+    throw new Error("The board snapshot is not a valid leaderboard file.");
+  }
+  if (snapshot.version > BOARD_SNAPSHOT_VERSION) {
+    throw new Error("This board snapshot was published by a newer version of the app. Reload the page.");
+  }
+  if (!snapshot.standings || !Array.isArray(snapshot.standings.rows)) {
+    throw new Error("The board snapshot is missing its standings.");
+  }
+  return snapshot as BoardSnapshot;
+}
@@ -1,43 +1,171 @@
 import { DateTime } from "luxon";
-import type { ParsedLine, WeekSummaryRow } from "../types";
+import type {
+  ActivityTier,
+  BossConfig,
+  KillTimelineEntry,
+  ParsedLine,
+  RoundingSettings,
+  StreakMode,
+  StreakSettings,
+  WeekAdjustment,
+  WeekStartSettings,
+  WeekSummaryRow
+} from "../types";
+import { DEFAULT_ROUNDING, roundPoints, settlePoints } from "./rounding";
+import { activityTierFor, tierRank } from "./tiers";
+import { weekBounds } from "./week";
 
-type ActivityThresholds = {
-  lowMax: number;
-  mediumMax: number;
+type BossPointStep = {
+  effectiveFromMillis: number;
+  points: number;
 };
 
+export type BossPointSchedule = Map<string, BossPointStep[]>;
+
 type HistoricalRow = {
   weekId: string;
   name: string;
   totalPoints: number;
   activityLevel: string;
   streak: number;
+  longestStreak: number;
+};
+
+const STREAK_MODES: StreakMode[] = ["same_tier", "any_points", "min_tier"];
+
+type Last3Input = {
+  weekId: string;
+  name: string;
+  totalPoints: number;
 };
 
-export function activityLevel(points: number, thresholds: ActivityThresholds): string {
-  if (points <= thresholds.lowMax) {
-    return "Low";
+export function activityLevel(points: number, tiers: ActivityTier[]): string {
+  return activityTierFor(points, tiers)?.name ?? "";
+}
+
+function hasInvalidEffectiveFrom(row: Pick<BossConfig, "effectiveFrom">): boolean {
+  return Boolean(row.effectiveFrom) && !DateTime.fromISO(row.effectiveFrom, { zone: "utc" }).isValid;
+}
+
+/** Boss rows whose EffectiveFrom is set but is not an ISO date; the point schedule cannot place them. */
+export function invalidBossRows<T extends Pick<BossConfig, "boss" | "effectiveFrom">>(rows: T[]): T[] {
+  return rows.filter(hasInvalidEffectiveFrom);
+}
+
+export function describeInvalidBossRows(rows: Array<Pick<BossConfig, "boss" | "effectiveFrom">>): string {
+  const listed = rows.map((row) => `${row.boss || "(Unnamed)"} "${row.effectiveFrom}"`).join(", ");
+  return `Bosses has ${rows.length} row(s) with an invalid EffectiveFrom (use YYYY-MM-DD): ${listed}.`;
+}
+
+/**
+ * Groups boss rows into per-boss point steps ordered by effective date. A blank EffectiveFrom applies from the
+ * beginning of time; dates are read as midnight in the given timezone. Rows `invalidBossRows` reports are left out, so
+ * callers check for them first.
+ */
+export function buildBossPointSchedule(bosses: BossConfig[], timezone = "utc"): BossPointSchedule {
+  const schedule: BossPointSchedule = new Map();
+  for (const row of bosses) {
+    const effectiveFrom = row.effectiveFrom ? DateTime.fromISO(row.effectiveFrom, { zone: timezone }) : null;
+    if (effectiveFrom && !effectiveFrom.isValid) {
+      continue;
+    }
+    if (!schedule.has(row.boss)) {
+      schedule.set(row.boss, []);
+    }
+    schedule.get(row.boss)!.push({
+      effectiveFromMillis: effectiveFrom ? effectiveFrom.toMillis() : Number.NEGATIVE_INFINITY,
+      points: row.points
+    });
+  }
+  for (const steps of schedule.values()) {
+    steps.sort((a, b) => a.effectiveFromMillis - b.effectiveFromMillis);
+  }
+  return schedule;
+}
+
+export function bossPointsAt(schedule: BossPointSchedule, boss: string, timestampUtcMillis?: number): number {
+  const steps = schedule.get(boss) || [];
+  if (steps.length === 0) {
+    return 0;
+  }
+  if (timestampUtcMillis === undefined) {
+    return steps[steps.length - 1].points;
   }
-  if (points <= thresholds.mediumMax) {
-    return "Medium";
+  let points = steps[0].points;
+  for (const step of steps) {
+    if (step.effectiveFromMillis > timestampUtcMillis) {
+      break;
+    }
+    points = step.points;
+  }
+  return points;
+}
+
+/** Points one kill line is worth, after modifiers and the rounding policy. */
+export function killPoints(line: ParsedLine, bossSchedule: BossPointSchedule, rounding: RoundingSettings): number {
+  const basePoints = bossPointsAt(bossSchedule, line.bossCanonical || "", line.timestampUtcMillis);
+  const rawPoints = line.pointsOverride ?? (basePoints + line.pointsBonus) * line.pointsMultiplier;
+  return roundPoints(rawPoints, rounding);
+}
+
+/** Every kill credited to or subtracted from `name`, in timestamp order; mirrors what `computeWeeklySummary` counts. */
+export function buildKillTimeline(
+  lines: ParsedLine[],
+  name: string,
+  bossSchedule: BossPointSchedule,
+  rounding: RoundingSettings = DEFAULT_ROUNDING
+): KillTimelineEntry[] {
+  const entries: KillTimelineEntry[] = [];
+  for (const line of lines) {
+    if (line.issues.length > 0 || !line.bossCanonical) {
+      continue;
+    }
+    const added = line.addNames.includes(name);
+    const subtracted = line.subtractNames.includes(name);
+    if (!added && !subtracted) {
+      continue;
+    }
+    const points = killPoints(line, bossSchedule, rounding);
+    const entry = {
+      lineNumber: line.lineNumber,
+      timestampUtcMillis: line.timestampUtcMillis,
+      boss: line.bossCanonical,
+      modifiers: line.modifiers,
+      author: line.author || ""
+    };
+    if (added) {
+      entries.push({ ...entry, points, subtracted: false });
+    }
+    if (subtracted) {
+      entries.push({ ...entry, points: -points, subtracted: true });
+    }
   }
-  return "High";
+  return entries.sort(
+    (a, b) => (a.timestampUtcMillis ?? 0) - (b.timestampUtcMillis ?? 0) || a.lineNumber - b.lineNumber
+  );
 }
 
 export function computeWeeklySummary(
   lines: ParsedLine[],
-  bossPointsByName: Map<string, number>,
+  bossSchedule: BossPointSchedule,
   users: string[],
-  thresholds: ActivityThresholds
+  tiers: ActivityTier[],
+  adjustments: WeekAdjustment[] = [],
+  rounding: RoundingSettings = DEFAULT_ROUNDING
 ): WeekSummaryRow[] {
   const map = new Map<string, WeekSummaryRow>();
   for (const user of users) {
     map.set(user, {
       name: user,
       totalPoints: 0,
-      activityLevel: "Low",
+      activityLevel: "",
       streak: 1,
+      longestStreak: 1,
       last3WeeksTotal: 0,
+      adjustmentPoints: 0,
+      carriedBalance: 0,
+      spent: 0,
+      balance: 0,
       bossPoints: {},
       bossCounts: {}
     });
@@ -48,9 +176,7 @@ export function computeWeeklySummary(
       continue;
     }
     const boss = line.bossCanonical;
-    const basePoints = bossPointsByName.get(boss) ?? 0;
-    const rawPoints = (basePoints + line.pointsBonus) * line.pointsMultiplier;
-    const points = Number.isInteger(rawPoints) ? rawPoints : Math.ceil(rawPoints);
+    const points = killPoints(line, bossSchedule, rounding);
 
     for (const name of line.addNames) {
       const row = map.get(name);
@@ -73,16 +199,69 @@ export function computeWeeklySummary(
     }
   }
 
+  for (const adjustment of adjustments) {
+    const row = map.get(adjustment.name);
+    if (!row) {
+      continue;
+    }
+    row.totalPoints += adjustment.points;
+    row.adjustmentPoints += adjustment.points;
+  }
+
   const output = Array.from(map.values());
   for (const row of output) {
-    row.activityLevel = activityLevel(row.totalPoints, thresholds);
+    row.totalPoints = settlePoints(row.totalPoints, rounding);
+    for (const boss of Object.keys(row.bossPoints)) {
+      row.bossPoints[boss] = settlePoints(row.bossPoints[boss], rounding);
+    }
+    row.activityLevel = activityLevel(row.totalPoints, tiers);
   }
 
   output.sort((a, b) => b.totalPoints - a.totalPoints || a.name.localeCompare(b.name));
   return output;
 }
 
-export function recomputeStreaks(allTotals: HistoricalRow[], weeksOrder: string[]): HistoricalRow[] {
+export function streakSettingsFromConfig(config: Record<string, string>): StreakSettings {
+  const mode = (config.streak_mode || "").trim().toLowerCase() as StreakMode;
+  return {
+    mode: STREAK_MODES.includes(mode) ? mode : "same_tier",
+    minTier: (config.streak_min_tier || "").trim()
+  };
+}
+
+export function streakLabel(settings: StreakSettings): string {
+  if (settings.mode === "any_points") {
+    return "Consecutive Weeks With Points";
+  }
+  if (settings.mode === "min_tier" && settings.minTier) {
+    return `Consecutive Weeks at ${settings.minTier} or Above`;
+  }
+  return "Consecutive Weeks at Activity Level";
+}
+
+/**
+ * Re-derives every row's activity level from its points with the current tiers, so renamed or re-banded tiers carry
+ * back through history, then counts streaks per `settings`. A member with no row for a week in `weeksOrder` starts
+ * over, and weeks that do not qualify (no points, or below the minimum tier) score 0. `longestStreak` is the best
+ * streak up to and including each week.
+ */
+export function recomputeStreaks(
+  allTotals: HistoricalRow[],
+  weeksOrder: string[],
+  tiers: ActivityTier[],
+  settings: StreakSettings
+): HistoricalRow[] {
+  const minRank = tierRank(settings.minTier, tiers);
+  const qualifies = (row: HistoricalRow): boolean => {
+    if (settings.mode === "any_points") {
+      return row.totalPoints > 0;
+    }
+    if (settings.mode === "min_tier") {
+      return tierRank(row.activityLevel, tiers) >= minRank;
+    }
+    return true;
+  };
+
   const byName = new Map<string, HistoricalRow[]>();
   for (const row of allTotals) {
     if (!byName.has(row.name)) {
@@ -96,25 +275,65 @@ export function recomputeStreaks(allTotals: HistoricalRow[], weeksOrder: string[
       (a, b) => weeksOrder.indexOf(a.weekId) - weeksOrder.indexOf(b.weekId) || a.weekId.localeCompare(b.weekId)
     );
     let streak = 0;
+    let longest = 0;
     let prevLevel = "";
+    let prevIndex = -2;
     for (const row of rows) {
-      if (row.activityLevel === prevLevel) {
+      row.activityLevel = activityLevel(row.totalPoints, tiers);
+      const index = weeksOrder.indexOf(row.weekId);
+      if (index === -1) {
+        // A week missing from weeksOrder has no neighbours: it stands alone and the next known week starts afresh.
+        row.streak = qualifies(row) ? 1 : 0;
+        row.longestStreak = longest;
+        streak = 0;
+        prevIndex = -2;
+        continue;
+      }
+      const continues = index === prevIndex + 1 && streak > 0;
+      if (!qualifies(row)) {
+        streak = 0;
+      } else if (continues && (settings.mode !== "same_tier" || row.activityLevel === prevLevel)) {
         streak += 1;
       } else {
         streak = 1;
       }
+      longest = Math.max(longest, streak);
       row.streak = streak;
+      row.longestStreak = longest;
       prevLevel = row.activityLevel;
+      prevIndex = index;
     }
   }
   return allTotals;
 }
 
-export function buildWeekRangeText(weekId: string): { startUtc: string; endUtc: string } {
-  const start = DateTime.fromISO(weekId, { zone: "utc" }).startOf("day");
-  const end = start.plus({ days: 6 }).endOf("day");
+export function computeLast3WeekTotals(
+  allRows: Last3Input[],
+  weeksAscending: string[],
+  targetWeekId: string
+): Map<string, number> {
+  const targetIndex = weeksAscending.indexOf(targetWeekId);
+  if (targetIndex === -1) {
+    return new Map<string, number>();
+  }
+  const includedWeeks = new Set(weeksAscending.slice(Math.max(0, targetIndex - 2), targetIndex + 1));
+  const totalsByName = new Map<string, number>();
+  for (const row of allRows) {
+    if (!includedWeeks.has(row.weekId)) {
+      continue;
+    }
+    totalsByName.set(row.name, (totalsByName.get(row.name) || 0) + row.totalPoints);
+  }
+  return totalsByName;
+}
+
+export function buildWeekRangeText(
+  weekId: string,
+  settings: WeekStartSettings
+): { startUtc: string; endUtc: string } {
+  const bounds = weekBounds(weekId, settings);
   return {
-    startUtc: start.toISO() || "",
-    endUtc: end.toISO() || ""
+    startUtc: DateTime.fromMillis(bounds.startUtcMillis, { zone: "utc" }).toISO() || "",
+    endUtc: DateTime.fromMillis(bounds.endUtcMillis, { zone: "utc" }).toISO() || ""
   };
 }
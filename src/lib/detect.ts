@@ -0,0 +1,118 @@
+import type { ChatFormat, FormatChoice, TimestampConvention } from "./parser";
+import { getChatFormats, parseTimestampToUtcMillis } from "./parser";
+
+export type FormatDetection = {
+  choice: FormatChoice;
+  formatLabel: string;
+  conventionLabel: string;
+  sampledLines: number;
+  parsedLines: number;
+  confidence: number;
+  ambiguous: boolean;
+};
+
+type Candidate = {
+  format: ChatFormat;
+  convention: TimestampConvention;
+  locale: string;
+  timestamps: Array<number | undefined>;
+  parsedCount: number;
+  orderedPairs: number;
+};
+
+const DEFAULT_SAMPLE_SIZE = 50;
+const MONTH_NAME_LOCALES = ["en", "de", "fr", "es", "it", "pt", "nl"];
+
+function usesMonthNames(convention: TimestampConvention): boolean {
+  return convention.formats.some((format) => format.includes("LLL"));
+}
+
+function sampleTimestamps(lines: string[], format: ChatFormat): Array<string | undefined> {
+  return lines.map((line) => line.match(format.lineRegex)?.[1]?.trim());
+}
+
+function scoreCandidate(
+  format: ChatFormat,
+  convention: TimestampConvention,
+  locale: string,
+  rawTimestamps: Array<string | undefined>
+): Candidate {
+  const timestamps = rawTimestamps.map((raw) =>
+    raw === undefined ? undefined : parseTimestampToUtcMillis(raw, "UTC", convention.formats, locale)
+  );
+  let parsedCount = 0;
+  let orderedPairs = 0;
+  let previous: number | undefined;
+  for (const value of timestamps) {
+    if (value === undefined) {
+      continue;
+    }
+    parsedCount += 1;
+    if (previous !== undefined && value >= previous) {
+      orderedPairs += 1;
+    }
+    previous = value;
+  }
+  return { format, convention, locale, timestamps, parsedCount, orderedPairs };
+}
+
+function compareCandidates(a: Candidate, b: Candidate): number {
+  return b.parsedCount - a.parsedCount || b.orderedPairs - a.orderedPairs;
+}
+
+function sameTimestamps(a: Candidate, b: Candidate): boolean {
+  return a.timestamps.every((value, index) => value === b.timestamps[index]);
+}
+
+/**
+ * Scores every registered format, timestamp convention and month-name locale against the first timestamped
+ * lines of a file. Chat logs are chronological, so ties on parse count are broken by how many consecutive
+ * timestamps stay in order (this separates d/M from M/d once a file crosses a month boundary).
+ */
+export function detectChatFormat(lines: string[], sampleSize = DEFAULT_SAMPLE_SIZE): FormatDetection | null {
+  const formats = getChatFormats();
+  const sample = lines
+    .filter((line) => line.trim() && formats.some((format) => format.lineRegex.test(line)))
+    .slice(0, sampleSize);
+  if (sample.length === 0) {
+    return null;
+  }
+
+  const candidates: Candidate[] = [];
+  for (const format of formats) {
+    const rawTimestamps = sampleTimestamps(sample, format);
+    if (rawTimestamps.every((raw) => raw === undefined)) {
+      continue;
+    }
+    for (const convention of format.conventions) {
+      const locales = usesMonthNames(convention) ? MONTH_NAME_LOCALES : ["en"];
+      for (const locale of locales) {
+        candidates.push(scoreCandidate(format, convention, locale, rawTimestamps));
+      }
+    }
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep registry, convention and locale order.
+  candidates.sort(compareCandidates);
+  const best = candidates[0];
+  if (!best || best.parsedCount === 0) {
+    return null;
+  }
+  const ambiguous = candidates
+    .slice(1)
+    .some((candidate) => compareCandidates(best, candidate) === 0 && !sameTimestamps(best, candidate));
+
+  return {
+    choice: {
+      formatId: best.format.id,
+      conventionId: best.convention.id,
+      locale: best.locale
+    },
+    formatLabel: best.format.label,
+    conventionLabel: best.convention.label,
+    sampledLines: sample.length,
+    parsedLines: best.parsedCount,
+    confidence: best.parsedCount / sample.length,
+    ambiguous
+  };
+}
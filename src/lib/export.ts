@@ -1,4 +1,6 @@
-import type { WeekSummaryRow } from "../types";
+import { formatPoints } from "./rounding";
+import type { BoardSnapshot } from "./board";
+import type { ActivityTier, WeekSummaryRow } from "../types";
 
 function escapeCsvCell(value: string | number): string {
   const text = String(value ?? "");
@@ -19,22 +21,47 @@ function triggerDownload(content: string, filename: string, mimeType: string): v
 }
 
 export function exportMinimalCsv(rows: WeekSummaryRow[], weekId: string): void {
-  const csv = ["Name,TotalPoints", ...rows.map((row) => `${escapeCsvCell(row.name)},${row.totalPoints}`)].join(
+  const csv = ["Name,TotalPoints", ...rows.map((row) => `${escapeCsvCell(row.name)},${formatPoints(row.totalPoints)}`)].join(
     "\n"
   );
   triggerDownload(csv, `weekly_points_${weekId}.csv`, "text/csv");
 }
 
 export function exportMinimalTxt(rows: WeekSummaryRow[], weekId: string): void {
-  const txt = rows.map((row) => `${row.name},${row.totalPoints}`).join("\n");
+  const txt = rows.map((row) => `${row.name},${formatPoints(row.totalPoints)}`).join("\n");
   triggerDownload(txt, `weekly_points_${weekId}.txt`, "text/plain");
 }
 
-export function exportFullCsv(rows: WeekSummaryRow[], weekId: string, bosses: string[]): void {
-  const columns = ["Name", "TotalPoints", "ActivityLevel", "Streak", ...bosses];
+export function exportFullCsv(
+  rows: WeekSummaryRow[],
+  weekId: string,
+  bosses: string[],
+  tiers: ActivityTier[] = []
+): void {
+  const columns = [
+    "Name",
+    "TotalPoints",
+    "ActivityLevel",
+    "ActivityColor",
+    "Streak",
+    "LongestStreak",
+    "Adjustments",
+    "Balance",
+    ...bosses
+  ];
+  const colors = new Map(tiers.map((tier) => [tier.name, tier.color]));
   const lines = [columns.join(",")];
   for (const row of rows) {
-    const values: Array<string | number> = [row.name, row.totalPoints, row.activityLevel, row.streak];
+    const values: Array<string | number> = [
+      row.name,
+      formatPoints(row.totalPoints),
+      row.activityLevel,
+      colors.get(row.activityLevel) || "",
+      row.streak,
+      row.longestStreak,
+      formatPoints(row.adjustmentPoints),
+      formatPoints(row.balance)
+    ];
     for (const boss of bosses) {
       values.push(row.bossCounts[boss] || 0);
     }
@@ -43,6 +70,10 @@ export function exportFullCsv(rows: WeekSummaryRow[], weekId: string, bosses: st
   triggerDownload(lines.join("\n"), `weekly_full_${weekId}.csv`, "text/csv");
 }
 
+export function exportBoardSnapshot(snapshot: BoardSnapshot): void {
+  triggerDownload(JSON.stringify(snapshot, null, 2), "board.json", "application/json");
+}
+
 export function exportCorrectedFile(lines: string[], weekId: string): void {
   triggerDownload(lines.join("\n"), `corrected_${weekId}.txt`, "text/plain");
 }
@@ -1,8 +1,11 @@
 export type GoogleAuthResult = {
   accessToken: string;
   email: string;
+  expiresAt: number;
 };
 
+type TokenResponse = { access_token?: string; expires_in?: number | string; error?: string };
+
 declare global {
   interface Window {
     google?: {
@@ -11,9 +14,11 @@ declare global {
           initTokenClient(config: {
             client_id: string;
             scope: string;
-            callback: (response: { access_token?: string; error?: string }) => void;
+            hint?: string;
+            callback: (response: TokenResponse) => void;
+            error_callback?: (error: { type?: string; message?: string }) => void;
           }): {
-            requestAccessToken(): void;
+            requestAccessToken(overrideConfig?: { prompt?: string; hint?: string }): void;
           };
         };
       };
@@ -22,6 +27,10 @@ declare global {
 }
 
 const GOOGLE_SCRIPT_URL = "https://accounts.google.com/gsi/client";
+const GOOGLE_SCOPE = "https://www.googleapis.com/auth/spreadsheets openid email profile";
+// Google tokens last an hour; treat them as expired a minute early so a request never starts on a dying token.
+const DEFAULT_TOKEN_LIFETIME_SECONDS = 3600;
+const EXPIRY_MARGIN_MS = 60000;
 
 let googleScriptPromise: Promise<void> | null = null;
 
@@ -66,7 +75,13 @@ async function fetchEmail(accessToken: string): Promise<string> {
   return payload.email;
 }
 
-export async function signInWithGoogle(clientId: string): Promise<GoogleAuthResult> {
+function expiresAtFrom(response: TokenResponse): number {
+  const seconds = Number(response.expires_in || DEFAULT_TOKEN_LIFETIME_SECONDS);
+  const lifetime = Number.isFinite(seconds) && seconds > 0 ? seconds : DEFAULT_TOKEN_LIFETIME_SECONDS;
+  return Date.now() + lifetime * 1000 - EXPIRY_MARGIN_MS;
+}
+
+async function requestGoogleToken(clientId: string, emailHint?: string, prompt?: string): Promise<GoogleAuthResult> {
   if (!clientId) {
     throw new Error("Missing VITE_GOOGLE_WEB_CLIENT_ID");
   }
@@ -79,7 +94,8 @@ export async function signInWithGoogle(clientId: string): Promise<GoogleAuthResu
     }
     const tokenClient = oauth2.initTokenClient({
       client_id: clientId,
-      scope: "https://www.googleapis.com/auth/spreadsheets openid email profile",
+      scope: GOOGLE_SCOPE,
+      hint: emailHint,
       callback: async (response) => {
         if (response.error || !response.access_token) {
           reject(new Error(response.error || "Login failed"));
@@ -87,12 +103,35 @@ export async function signInWithGoogle(clientId: string): Promise<GoogleAuthResu
         }
         try {
           const email = await fetchEmail(response.access_token);
-          resolve({ accessToken: response.access_token, email });
+          resolve({ accessToken: response.access_token, email, expiresAt: expiresAtFrom(response) });
         } catch (error) {
           reject(error instanceof Error ? error : new Error("Unable to fetch profile"));
         }
+      },
+      error_callback: (error) => {
+        reject(new Error(error.message || error.type || "Google sign-in was interrupted"));
       }
     });
-    tokenClient.requestAccessToken();
+    tokenClient.requestAccessToken(prompt === undefined ? undefined : { prompt, hint: emailHint });
   });
 }
+
+export async function signInWithGoogle(clientId: string): Promise<GoogleAuthResult> {
+  return requestGoogleToken(clientId);
+}
+
+/**
+ * Gets a fresh token for an account that already granted consent. With `interactive` false Google is asked not to
+ * show any UI; browsers may still block the popup outside a click, in which case the caller falls back to a prompt.
+ */
+export async function renewGoogleAccessToken(
+  clientId: string,
+  email: string,
+  interactive: boolean
+): Promise<GoogleAuthResult> {
+  const renewed = await requestGoogleToken(clientId, email, interactive ? "select_account" : "");
+  if (renewed.email.toLowerCase() !== email.toLowerCase()) {
+    throw new Error(`Signed in as ${renewed.email}; continue with ${email} to keep your work.`);
+  }
+  return renewed;
+}
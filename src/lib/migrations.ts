@@ -0,0 +1,45 @@
+export type MigrationRow = Record<string, string>;
+
+export type MigrationStep =
+  | { kind: "addColumn"; tab: string; column: string; fill?: (row: MigrationRow) => string }
+  | { kind: "renameColumn"; tab: string; from: string; to: string }
+  | { kind: "backfill"; tab: string; column: string; value: (row: MigrationRow) => string };
+
+export type SchemaMigration = {
+  version: number;
+  description: string;
+  steps: MigrationStep[];
+};
+
+/**
+ * Ordered data-sheet migrations. Each entry upgrades a sheet from `version - 1` to `version`; steps must be
+ * idempotent because a sheet created by a newer app already has the final headers and only needs the version stamp.
+ * Version 1 is the original layout, so a sheet without a schema_version entry starts there.
+ */
+export const MIGRATIONS: SchemaMigration[] = [
+  {
+    version: 2,
+    description: "Effective-dated boss point schedules",
+    steps: [{ kind: "addColumn", tab: "Bosses", column: "EffectiveFrom" }]
+  },
+  {
+    version: 3,
+    description: "Allowlist roles",
+    // Everyone listed before roles existed had full access, so they start as admins.
+    steps: [{ kind: "addColumn", tab: "Allowlist", column: "Role", fill: () => "admin" }]
+  },
+  {
+    version: 4,
+    description: "Longest streaks",
+    // The current streak is a lower bound; the next week save recomputes the real value for every stored week.
+    steps: [{ kind: "addColumn", tab: "WeekUserTotals", column: "LongestStreak", fill: (row) => row.Streak || "1" }]
+  },
+  {
+    version: 5,
+    description: "Loot spending in balances",
+    // Nothing was spent before the Spending tab existed, so every stored balance is unchanged.
+    steps: [{ kind: "addColumn", tab: "Balances", column: "Spent", fill: () => "0" }]
+  }
+];
+
+export const SCHEMA_VERSION = MIGRATIONS.reduce((latest, migration) => Math.max(latest, migration.version), 1);
@@ -10,6 +10,10 @@ export function normalizeBossKey(input: string): string {
   return input.trim().toLowerCase().replace(/\s+/g, " ");
 }
 
+export function normalizeModifierKey(input: string): string {
+  return input.trim().toLowerCase().replace(/\s+/g, "");
+}
+
 export function splitWords(input: string): string[] {
   return input
     .split(/\s+/)
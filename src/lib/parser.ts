@@ -1,43 +1,54 @@
 import { DateTime } from "luxon";
-import type { ParsedLine, ParseIssue } from "../types";
-import { dedupePreserveOrder, normalizeBossKey, normalizeKey, splitWords } from "./normalize";
+import type { ModifierConfig, ParsedLine, ParseIssue } from "../types";
+import { dedupePreserveOrder, normalizeBossKey, normalizeKey, normalizeModifierKey, splitWords } from "./normalize";
 
-type ParserLookup = {
+export type ParserLookup = {
   usersByKey: Map<string, string>;
   bossesByKey: Map<string, { boss: string; points: number }>;
   nameAliasByKey: Map<string, string>;
   bossAliasByKey: Map<string, string>;
+  modifiersByKey: Map<string, ModifierConfig>;
 };
 
-const OLD_FORMAT_REGEX = /^\s*([A-Za-z]+ \d{1,2}, \d{4} \d{1,2}:\d{2} (?:AM|PM|am|pm)):\s*(.+)$/;
-const NEW_FORMAT_REGEX = /^\s*(\d{1,2}\s+[A-Za-z]+\s+\d{4}\s+at\s+\d{1,2}:\d{2}(?:\s*(?:AM|PM|am|pm))?)\s+(.+?)\s*$/i;
-const OLD_TIMESTAMP_FORMATS = ["LLLL d, yyyy h:mm a", "LLL d, yyyy h:mm a"];
-const NEW_TIMESTAMP_FORMATS = [
-  "d LLL yyyy 'at' H:mm",
-  "d LLL yyyy 'at' HH:mm",
-  "d LLL yyyy 'at' h:mm a",
-  "d LLLL yyyy 'at' H:mm",
-  "d LLLL yyyy 'at' HH:mm",
-  "d LLLL yyyy 'at' h:mm a"
-];
-const MODIFIER_SYNONYMS: Record<string, "bonus5" | "half" | "double"> = {
-  brucy: "bonus5",
-  brucybonus: "bonus5",
-  fail: "half",
-  comp: "half",
-  double: "double",
-  doublepoints: "double"
+export type TimestampConvention = {
+  id: string;
+  label: string;
+  formats: string[];
 };
 
-export function isTimestampLineStart(rawText: string): boolean {
-  return OLD_FORMAT_REGEX.test(rawText) || NEW_FORMAT_REGEX.test(rawText);
-}
+export type AuthorPayloadSplit = { author?: string; payload: string } | { error: string };
+
+/**
+ * Describes one chat export format. `lineRegex` must capture the timestamp in group 1 and the rest of the
+ * line in group 2. When the splitter leaves `author` undefined, the author is taken from the tokens before
+ * the boss token chosen by `locateBossToken`.
+ */
+export type ChatFormat = {
+  id: string;
+  label: string;
+  lineRegex: RegExp;
+  conventions: TimestampConvention[];
+  splitAuthorPayload: (remainder: string) => AuthorPayloadSplit;
+  locateBossToken: (tokens: string[], lookup: ParserLookup) => number;
+};
+
+/** Pins one format, timestamp convention and month-name locale, usually picked by `detectChatFormat`. */
+export type FormatChoice = {
+  formatId: string;
+  conventionId: string;
+  locale: string;
+};
+
+export const ISO_TIMESTAMP = "ISO";
+// Signed numbers keep their sign so "+10" and "-5" can be registered as synonyms.
+const MODIFIER_TOKEN_REGEX = /[+-]?\d+(?:\.\d+)?[a-z]*|[a-z][a-z0-9]*(?:\.\d+)?/g;
 
 export function createParserLookup(
   canonicalUsers: string[],
   bosses: Array<{ boss: string; points: number }>,
   nameAliases: Array<{ alias: string; canonical: string }>,
-  bossAliases: Array<{ alias: string; canonical: string }>
+  bossAliases: Array<{ alias: string; canonical: string }>,
+  modifiers: ModifierConfig[]
 ): ParserLookup {
   const usersByKey = new Map<string, string>();
   for (const user of canonicalUsers) {
@@ -59,24 +70,35 @@ export function createParserLookup(
     bossAliasByKey.set(normalizeBossKey(row.alias), row.canonical);
   }
 
+  const modifiersByKey = new Map<string, ModifierConfig>();
+  for (const modifier of modifiers) {
+    modifiersByKey.set(normalizeModifierKey(modifier.synonym), modifier);
+  }
+
   return {
     usersByKey,
     bossesByKey,
     nameAliasByKey,
-    bossAliasByKey
+    bossAliasByKey,
+    modifiersByKey
   };
 }
 
-function parseTimestampToUtcMillis(
+export function parseTimestampToUtcMillis(
   timestampRaw: string,
   timezone: string,
-  formats: string[]
+  formats: string[],
+  locale = "en"
 ): number | undefined {
+  const normalized = timestampRaw.replace(/\s+/g, " ").trim();
   for (const format of formats) {
-    const parsed = DateTime.fromFormat(timestampRaw, format, {
-      zone: timezone,
-      locale: "en"
-    });
+    const parsed =
+      format === ISO_TIMESTAMP
+        ? DateTime.fromISO(normalized.replace(" ", "T"), { zone: timezone })
+        : DateTime.fromFormat(normalized, format, {
+            zone: timezone,
+            locale
+          });
     if (parsed.isValid) {
       return parsed.toUTC().toMillis();
     }
@@ -143,6 +165,7 @@ function stripBossToken(token: string): string {
 function applyBossModifiers(
   rawBossToken: string,
   parsed: ParsedLine,
+  lookup: ParserLookup,
   issues: ParseIssue[]
 ): string {
   const modifierMatches = Array.from(rawBossToken.matchAll(/\(([^)]*)\)/g));
@@ -151,16 +174,14 @@ function applyBossModifiers(
     return bossToken;
   }
 
-  const canonicalModifiers = new Set<"bonus5" | "half" | "double">();
+  // Synonyms of the same effect and value (e.g. "fail" and "comp") only apply once per line.
+  const appliedModifiers = new Map<string, ModifierConfig>();
   for (const match of modifierMatches) {
     const content = (match[1] || "").trim().toLowerCase();
-    const tokens = content
-      .split(/[^a-z0-9]+/)
-      .map((token) => token.trim())
-      .filter(Boolean);
+    const tokens = content.match(MODIFIER_TOKEN_REGEX) || [];
     for (const token of tokens) {
-      const canonical = MODIFIER_SYNONYMS[token];
-      if (!canonical) {
+      const modifier = lookup.modifiersByKey.get(token);
+      if (!modifier) {
         issues.push({
           type: "UnknownModifier",
           token,
@@ -168,18 +189,21 @@ function applyBossModifiers(
         });
         continue;
       }
-      canonicalModifiers.add(canonical);
+      appliedModifiers.set(`${modifier.effect}:${modifier.value}`, modifier);
+      if (!parsed.modifiers.includes(token)) {
+        parsed.modifiers.push(token);
+      }
     }
   }
 
-  if (canonicalModifiers.has("bonus5")) {
-    parsed.pointsBonus += 5;
-  }
-  if (canonicalModifiers.has("half")) {
-    parsed.pointsMultiplier *= 0.5;
-  }
-  if (canonicalModifiers.has("double")) {
-    parsed.pointsMultiplier *= 2;
+  for (const modifier of appliedModifiers.values()) {
+    if (modifier.effect === "bonus") {
+      parsed.pointsBonus += modifier.value;
+    } else if (modifier.effect === "multiplier") {
+      parsed.pointsMultiplier *= modifier.value;
+    } else {
+      parsed.pointsOverride = modifier.value;
+    }
   }
 
   return bossToken;
@@ -249,7 +273,7 @@ function applyBossAndNames(
   lookup: ParserLookup,
   issues: ParseIssue[]
 ): void {
-  const bossToken = applyBossModifiers(bossTokenRaw, parsed, issues);
+  const bossToken = applyBossModifiers(bossTokenRaw, parsed, lookup, issues);
   parsed.bossRaw = bossToken;
 
   const bossResolved = resolveBoss(bossToken, lookup);
@@ -264,51 +288,6 @@ function applyBossAndNames(
   parsed.subtractNames = subtractNames;
 }
 
-function parseOldFormatLine(
-  parsed: ParsedLine,
-  timezone: string,
-  lookup: ParserLookup,
-  issues: ParseIssue[],
-  match: RegExpMatchArray
-): ParsedLine {
-  const timestampRaw = match[1];
-  const remainder = match[2];
-  parsed.timestampRaw = timestampRaw;
-
-  const timestampUtcMillis = parseTimestampToUtcMillis(timestampRaw, timezone, OLD_TIMESTAMP_FORMATS);
-  if (timestampUtcMillis === undefined) {
-    issues.push({
-      type: "InvalidTimestamp",
-      message: `Unable to parse timestamp with timezone ${timezone}.`
-    });
-  } else {
-    parsed.timestampUtcMillis = timestampUtcMillis;
-  }
-
-  const splitIndex = remainder.indexOf(":");
-  if (splitIndex === -1) {
-    issues.push({
-      type: "UnsupportedFormat",
-      message: "Missing second ':' separator for author and payload."
-    });
-    return parsed;
-  }
-
-  parsed.author = remainder.slice(0, splitIndex).trim();
-  const payload = remainder.slice(splitIndex + 1).trim();
-  const words = splitWords(payload);
-  if (words.length === 0) {
-    issues.push({
-      type: "UnsupportedFormat",
-      message: "Payload is empty."
-    });
-    return parsed;
-  }
-
-  applyBossAndNames(parsed, words[0], words.slice(1), lookup, issues);
-  return parsed;
-}
-
 function isLikelyNameTailToken(token: string, lookup: ParserLookup): boolean {
   if (token.toLowerCase() === "not") {
     return true;
@@ -331,7 +310,7 @@ function isBossCandidateToken(token: string, lookup: ParserLookup): boolean {
   return looksBossLikeToken(cleanToken);
 }
 
-function chooseBossIndexForNewFormat(tokens: string[], lookup: ParserLookup): number {
+function chooseBossIndexBeforeNameTail(tokens: string[], lookup: ParserLookup): number {
   const candidates: number[] = [];
   for (let index = 0; index < tokens.length; index += 1) {
     if (isBossCandidateToken(tokens[index], lookup)) {
@@ -358,18 +337,214 @@ function chooseBossIndexForNewFormat(tokens: string[], lookup: ParserLookup): nu
   return candidates[candidates.length - 1];
 }
 
-function parseNewFormatLine(
+function firstTokenIsBoss(tokens: string[]): number {
+  return tokens.length > 0 ? 0 : -1;
+}
+
+function splitOnFirstColon(remainder: string): AuthorPayloadSplit {
+  const splitIndex = remainder.indexOf(":");
+  if (splitIndex === -1) {
+    return { error: "Missing second ':' separator for author and payload." };
+  }
+  return {
+    author: remainder.slice(0, splitIndex).trim(),
+    payload: remainder.slice(splitIndex + 1).trim()
+  };
+}
+
+function keepAuthorInPayload(remainder: string): AuthorPayloadSplit {
+  return { payload: remainder };
+}
+
+function splitBracketedOrColonAuthor(remainder: string): AuthorPayloadSplit {
+  const bracketed = remainder.match(/^(?:\[([^\]]+)\]|<([^>]+)>)\s*(.*)$/);
+  if (bracketed) {
+    return { author: (bracketed[1] || bracketed[2]).trim(), payload: bracketed[3].trim() };
+  }
+  return splitOnFirstColon(remainder);
+}
+
+const CHAT_FORMATS: ChatFormat[] = [
+  {
+    id: "band-old",
+    label: "BAND (classic)",
+    lineRegex: /^\s*([\p{L}.]+ \d{1,2}, \d{4} \d{1,2}:\d{2} (?:AM|PM|am|pm)):\s*(.+)$/u,
+    conventions: [
+      { id: "mdy-12h", label: "LLL d, yyyy 12-hour", formats: ["LLLL d, yyyy h:mm a", "LLL d, yyyy h:mm a"] }
+    ],
+    splitAuthorPayload: splitOnFirstColon,
+    locateBossToken: firstTokenIsBoss
+  },
+  {
+    id: "band-new",
+    label: "BAND (alternate)",
+    lineRegex: /^\s*(\d{1,2}\s+[\p{L}.]+\s+\d{4}\s+at\s+\d{1,2}:\d{2}(?:\s*(?:AM|PM|am|pm))?)\s+(.+?)\s*$/iu,
+    conventions: [
+      {
+        id: "dmy-24h",
+        label: "d LLL yyyy 24-hour",
+        formats: ["d LLL yyyy 'at' H:mm", "d LLL yyyy 'at' HH:mm", "d LLLL yyyy 'at' H:mm", "d LLLL yyyy 'at' HH:mm"]
+      },
+      {
+        id: "dmy-12h",
+        label: "d LLL yyyy 12-hour",
+        formats: ["d LLL yyyy 'at' h:mm a", "d LLLL yyyy 'at' h:mm a"]
+      }
+    ],
+    splitAuthorPayload: keepAuthorInPayload,
+    locateBossToken: chooseBossIndexBeforeNameTail
+  },
+  {
+    id: "discord",
+    label: "Discord export",
+    lineRegex: /^\s*\[(\d{1,2}\/\d{1,2}\/\d{2,4}\s+\d{1,2}:\d{2}(?::\d{2})?(?:\s*(?:AM|PM))?)\]\s+(.+?)\s*$/i,
+    conventions: [
+      {
+        id: "mdy-12h",
+        label: "M/d/yyyy 12-hour",
+        formats: ["M/d/yyyy h:mm a", "M/d/yyyy h:mm:ss a", "M/d/yy h:mm a"]
+      },
+      {
+        id: "mdy-24h",
+        label: "M/d/yyyy 24-hour",
+        formats: ["M/d/yyyy H:mm", "M/d/yyyy H:mm:ss", "M/d/yy H:mm"]
+      },
+      {
+        id: "dmy-24h",
+        label: "d/M/yyyy 24-hour",
+        formats: ["d/M/yyyy H:mm", "d/M/yyyy H:mm:ss", "d/M/yy H:mm"]
+      },
+      {
+        id: "dmy-12h",
+        label: "d/M/yyyy 12-hour",
+        formats: ["d/M/yyyy h:mm a", "d/M/yyyy h:mm:ss a", "d/M/yy h:mm a"]
+      }
+    ],
+    splitAuthorPayload: keepAuthorInPayload,
+    locateBossToken: chooseBossIndexBeforeNameTail
+  },
+  {
+    id: "whatsapp",
+    label: "WhatsApp export",
+    lineRegex:
+      /^\s*\[?(\d{1,2}\/\d{1,2}\/\d{2,4},\s+\d{1,2}:\d{2}(?::\d{2})?(?:\s*(?:AM|PM))?)\]?\s*(?:-\s+)?(.+?)\s*$/i,
+    conventions: [
+      {
+        id: "dmy-24h",
+        label: "d/M/yyyy 24-hour",
+        formats: ["d/M/yyyy, H:mm", "d/M/yyyy, H:mm:ss", "d/M/yy, H:mm", "d/M/yy, H:mm:ss"]
+      },
+      {
+        id: "dmy-12h",
+        label: "d/M/yyyy 12-hour",
+        formats: ["d/M/yyyy, h:mm a", "d/M/yyyy, h:mm:ss a", "d/M/yy, h:mm a", "d/M/yy, h:mm:ss a"]
+      },
+      {
+        id: "mdy-12h",
+        label: "M/d/yyyy 12-hour",
+        formats: ["M/d/yyyy, h:mm a", "M/d/yyyy, h:mm:ss a", "M/d/yy, h:mm a", "M/d/yy, h:mm:ss a"]
+      },
+      {
+        id: "mdy-24h",
+        label: "M/d/yyyy 24-hour",
+        formats: ["M/d/yyyy, H:mm", "M/d/yyyy, H:mm:ss", "M/d/yy, H:mm", "M/d/yy, H:mm:ss"]
+      }
+    ],
+    splitAuthorPayload: splitOnFirstColon,
+    locateBossToken: firstTokenIsBoss
+  },
+  {
+    id: "iso",
+    label: "ISO timestamp log",
+    lineRegex:
+      /^\s*(\d{4}-\d{2}-\d{2}[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)\s+(.+?)\s*$/,
+    conventions: [{ id: "iso", label: "ISO 8601", formats: [ISO_TIMESTAMP] }],
+    splitAuthorPayload: splitBracketedOrColonAuthor,
+    locateBossToken: firstTokenIsBoss
+  }
+];
+
+export function getChatFormats(): ChatFormat[] {
+  return [...CHAT_FORMATS];
+}
+
+export function registerChatFormat(format: ChatFormat): void {
+  const existingIndex = CHAT_FORMATS.findIndex((candidate) => candidate.id === format.id);
+  if (existingIndex === -1) {
+    CHAT_FORMATS.push(format);
+    return;
+  }
+  CHAT_FORMATS[existingIndex] = format;
+}
+
+function orderedChatFormats(choice?: FormatChoice): ChatFormat[] {
+  const preferred = choice ? CHAT_FORMATS.find((format) => format.id === choice.formatId) : undefined;
+  if (!preferred) {
+    return CHAT_FORMATS;
+  }
+  return [preferred, ...CHAT_FORMATS.filter((format) => format !== preferred)];
+}
+
+function matchChatFormat(
+  rawText: string,
+  choice?: FormatChoice
+): { format: ChatFormat; match: RegExpMatchArray } | undefined {
+  for (const format of orderedChatFormats(choice)) {
+    const match = rawText.match(format.lineRegex);
+    if (match) {
+      return { format, match };
+    }
+  }
+  return undefined;
+}
+
+export function isTimestampLineStart(rawText: string): boolean {
+  return matchChatFormat(rawText) !== undefined;
+}
+
+/** The convention with the same date order on the other clock, e.g. dmy-12h for dmy-24h. */
+function otherClockConvention(format: ChatFormat, convention: TimestampConvention): TimestampConvention | undefined {
+  const [order, clock] = convention.id.split("-");
+  const otherClock = clock === "12h" ? "24h" : clock === "24h" ? "12h" : undefined;
+  return otherClock ? format.conventions.find((candidate) => candidate.id === `${order}-${otherClock}`) : undefined;
+}
+
+function parseTimestampWithChoice(
+  timestampRaw: string,
+  timezone: string,
+  format: ChatFormat,
+  choice?: FormatChoice
+): number | undefined {
+  // Only the chosen format is pinned; lines in any other format fall back to all of its conventions in English.
+  if (choice && choice.formatId === format.id) {
+    const convention = format.conventions.find((candidate) => candidate.id === choice.conventionId);
+    if (convention) {
+      // The date order stays pinned, but one file can mix "21:15" and "9:15 PM", so the other clock is tried too.
+      const formats = [...convention.formats, ...(otherClockConvention(format, convention)?.formats || [])];
+      return (
+        parseTimestampToUtcMillis(timestampRaw, timezone, formats, choice.locale) ??
+        (choice.locale === "en" ? undefined : parseTimestampToUtcMillis(timestampRaw, timezone, formats))
+      );
+    }
+  }
+  const allFormats = format.conventions.flatMap((convention) => convention.formats);
+  return parseTimestampToUtcMillis(timestampRaw, timezone, allFormats);
+}
+
+function parseFormattedLine(
   parsed: ParsedLine,
+  format: ChatFormat,
+  match: RegExpMatchArray,
   timezone: string,
   lookup: ParserLookup,
   issues: ParseIssue[],
-  match: RegExpMatchArray
+  choice?: FormatChoice
 ): ParsedLine {
   const timestampRaw = match[1].trim();
-  const tail = match[2].trim();
+  const remainder = match[2].trim();
   parsed.timestampRaw = timestampRaw;
 
-  const timestampUtcMillis = parseTimestampToUtcMillis(timestampRaw, timezone, NEW_TIMESTAMP_FORMATS);
+  const timestampUtcMillis = parseTimestampWithChoice(timestampRaw, timezone, format, choice);
   if (timestampUtcMillis === undefined) {
     issues.push({
       type: "InvalidTimestamp",
@@ -379,7 +554,16 @@ function parseNewFormatLine(
     parsed.timestampUtcMillis = timestampUtcMillis;
   }
 
-  const words = splitWords(tail);
+  const split = format.splitAuthorPayload(remainder);
+  if ("error" in split) {
+    issues.push({
+      type: "UnsupportedFormat",
+      message: split.error
+    });
+    return parsed;
+  }
+
+  const words = splitWords(split.payload);
   if (words.length === 0) {
     issues.push({
       type: "UnsupportedFormat",
@@ -388,16 +572,16 @@ function parseNewFormatLine(
     return parsed;
   }
 
-  const bossIndex = chooseBossIndexForNewFormat(words, lookup);
+  const bossIndex = format.locateBossToken(words, lookup);
   if (bossIndex === -1) {
     issues.push({
       type: "UnsupportedFormat",
-      message: "Unable to determine boss token in alternate format."
+      message: `Unable to determine boss token in ${format.label} format.`
     });
     return parsed;
   }
 
-  parsed.author = words.slice(0, bossIndex).join(" ").trim();
+  parsed.author = split.author ?? words.slice(0, bossIndex).join(" ").trim();
   applyBossAndNames(parsed, words[bossIndex], words.slice(bossIndex + 1), lookup, issues);
   return parsed;
 }
@@ -406,7 +590,8 @@ export function parseLine(
   rawText: string,
   lineNumber: number,
   timezone: string,
-  lookup: ParserLookup
+  lookup: ParserLookup,
+  choice?: FormatChoice
 ): ParsedLine {
   const issues: ParseIssue[] = [];
   const parsed: ParsedLine = {
@@ -414,24 +599,20 @@ export function parseLine(
     rawText,
     pointsBonus: 0,
     pointsMultiplier: 1,
+    modifiers: [],
     addNames: [],
     subtractNames: [],
     issues
   };
 
-  const oldMatch = rawText.match(OLD_FORMAT_REGEX);
-  if (oldMatch) {
-    return parseOldFormatLine(parsed, timezone, lookup, issues, oldMatch);
-  }
-
-  const newMatch = rawText.match(NEW_FORMAT_REGEX);
-  if (newMatch) {
-    return parseNewFormatLine(parsed, timezone, lookup, issues, newMatch);
+  const matched = matchChatFormat(rawText, choice);
+  if (matched) {
+    return parseFormattedLine(parsed, matched.format, matched.match, timezone, lookup, issues, choice);
   }
 
   issues.push({
     type: "UnsupportedFormat",
-    message: "Line does not match supported old or alternate BAND export formats."
+    message: "Line does not match any supported chat export format."
   });
 
   return parsed;
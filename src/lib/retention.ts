@@ -0,0 +1,41 @@
+import type { HistoryArchiveMode, HistoryRetention } from "../types";
+
+const DEFAULT_MAX_WEEKS = 20;
+const ARCHIVE_MODES: HistoryArchiveMode[] = ["off", "tabs", "spreadsheet"];
+
+function parseMaxWeeks(value: string | undefined): number | null {
+  const raw = (value || "").trim().toLowerCase();
+  if (raw === "unlimited" || raw === "0") {
+    return null;
+  }
+  const parsed = Number(raw);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : DEFAULT_MAX_WEEKS;
+}
+
+export function historyRetentionFromConfig(config: Record<string, string>): HistoryRetention {
+  const archive = (config.history_archive || "").trim().toLowerCase() as HistoryArchiveMode;
+  return {
+    maxWeeks: parseMaxWeeks(config.history_max_weeks),
+    archive: ARCHIVE_MODES.includes(archive) ? archive : "off",
+    archiveSpreadsheetId: (config.history_archive_spreadsheet_id || "").trim()
+  };
+}
+
+/** Returns the oldest week ids that fall outside the retention window. Expects ids sorted oldest first. */
+export function selectPurgedWeekIds(sortedWeekIds: string[], retention: HistoryRetention): string[] {
+  if (retention.maxWeeks === null || sortedWeekIds.length <= retention.maxWeeks) {
+    return [];
+  }
+  return sortedWeekIds.slice(0, sortedWeekIds.length - retention.maxWeeks);
+}
+
+export function describePurge(weekIds: string[], retention: HistoryRetention): string {
+  const destination =
+    retention.archive === "off"
+      ? "permanently deleted"
+      : retention.archive === "tabs"
+        ? "moved to the Archive tabs"
+        : "moved to the archive spreadsheet";
+  const header = `Keeping the newest ${retention.maxWeeks} week(s), so ${weekIds.length} week(s) will be ${destination}:`;
+  return [header, ...weekIds].join("\n");
+}
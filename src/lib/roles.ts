@@ -0,0 +1,31 @@
+import type { AllowlistEntry, Role } from "../types";
+
+export const ROLES: Role[] = ["viewer", "recorder", "admin"];
+
+/** Blank or unrecognised roles fall back to viewer so a typo never grants write access. */
+export function parseRole(value: string | undefined): Role {
+  const raw = (value || "").trim().toLowerCase() as Role;
+  return ROLES.includes(raw) ? raw : "viewer";
+}
+
+/**
+ * Returns the role the Allowlist grants `email`, or null when the account is not listed. An empty Allowlist leaves
+ * the sheet open, so whoever sets it up is an admin until they add the first entry.
+ */
+export function resolveRole(allowlist: AllowlistEntry[], email: string): Role | null {
+  if (allowlist.length === 0) {
+    return "admin";
+  }
+  const normalized = email.trim().toLowerCase();
+  return allowlist.find((entry) => entry.email === normalized)?.role ?? null;
+}
+
+export function hasRole(role: Role | null, required: Role): boolean {
+  return role !== null && ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function assertRole(role: Role | null, required: Role, action: string): void {
+  if (!hasRole(role, required)) {
+    throw new Error(`Only ${required === "admin" ? "admins" : `${required}s and admins`} can ${action}.`);
+  }
+}
@@ -0,0 +1,65 @@
+import type { RoundingMode, RoundingSettings } from "../types";
+
+const ROUNDING_MODES: RoundingMode[] = ["ceil", "floor", "half_up", "half_even", "decimals"];
+const MAX_DECIMALS = 6;
+// Matches the points_decimals default in DEFAULT_CONFIG; used when the cell is blank or not a number.
+const DEFAULT_DECIMALS = 2;
+// Products like 3 * 0.1 land a hair off the true value; anything this close to a boundary counts as on it.
+const EPSILON = 1e-9;
+
+/** The rounding the app always used before it was configurable: fractional awards round up. */
+export const DEFAULT_ROUNDING: RoundingSettings = { mode: "ceil", decimals: 0 };
+
+export function roundingSettingsFromConfig(config: Record<string, string>): RoundingSettings {
+  const mode = (config.points_rounding || "").trim().toLowerCase() as RoundingMode;
+  const rawDecimals = (config.points_decimals || "").trim();
+  const decimals = rawDecimals ? Math.trunc(Number(rawDecimals)) : NaN;
+  return {
+    mode: ROUNDING_MODES.includes(mode) ? mode : DEFAULT_ROUNDING.mode,
+    decimals: Number.isFinite(decimals) ? Math.min(MAX_DECIMALS, Math.max(0, decimals)) : DEFAULT_DECIMALS
+  };
+}
+
+function roundToPlaces(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round((value + Math.sign(value) * EPSILON) * factor) / factor;
+}
+
+/**
+ * Rounds one kill's award. Half-up rounds halves away from zero and half-even (banker's) rounds them to the even
+ * neighbour, so 2.5 -> 2 and 3.5 -> 4.
+ */
+export function roundPoints(value: number, settings: RoundingSettings): number {
+  const nearest = Math.round(value);
+  if (Math.abs(value - nearest) < EPSILON) {
+    return nearest;
+  }
+  switch (settings.mode) {
+    case "floor":
+      return Math.floor(value);
+    case "half_up":
+      return Math.sign(value) * Math.round(Math.abs(value) + EPSILON);
+    case "half_even": {
+      const floor = Math.floor(value);
+      const fraction = value - floor;
+      if (Math.abs(fraction - 0.5) < EPSILON) {
+        return floor % 2 === 0 ? floor : floor + 1;
+      }
+      return fraction < 0.5 ? floor : floor + 1;
+    }
+    case "decimals":
+      return roundToPlaces(value, settings.decimals);
+    default:
+      return Math.ceil(value);
+  }
+}
+
+/** Clears floating-point noise from summed awards, e.g. 0.1 + 0.2, without changing whole numbers. */
+export function settlePoints(value: number, settings: RoundingSettings): number {
+  return settings.mode === "decimals" ? roundToPlaces(value, settings.decimals) : value;
+}
+
+/** Display text for a point value: integers stay bare and fractions drop trailing zeros. */
+export function formatPoints(value: number): string {
+  return String(roundToPlaces(value, MAX_DECIMALS));
+}
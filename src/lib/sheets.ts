@@ -1,5 +1,25 @@
-import { DEFAULT_CONFIG, SHEET_SCHEMAS } from "../constants";
-import type { AliasRow, BossConfig, StoredWeek } from "../types";
+import { DateTime } from "luxon";
+import { ARCHIVE_SCHEMAS, DEFAULT_CONFIG, DEFAULT_MODIFIERS, SHEET_SCHEMAS } from "../constants";
+import { MIGRATIONS, SCHEMA_VERSION } from "./migrations";
+import type { MigrationRow, MigrationStep } from "./migrations";
+import { toAuditRow } from "./audit";
+import { parseRole } from "./roles";
+import { formatTierRow, parseActivityTierRows, tiersFromLegacyConfig } from "./tiers";
+import type {
+  ActivityTier,
+  AliasRow,
+  AllowlistEntry,
+  AuditAction,
+  AuditEntry,
+  BossConfig,
+  DataRevision,
+  ModifierConfig,
+  ModifierEffect,
+  PendingWeekWrite,
+  StoredWeek,
+  TabSchema,
+  WeekAdjustment
+} from "../types";
 
 type SpreadsheetMetadata = {
   sheets?: Array<{
@@ -15,6 +35,56 @@ type ValueRange = {
   values?: string[][];
 };
 
+type CellData = {
+  userEnteredValue: { numberValue: number } | { stringValue: string };
+};
+
+export type WeekTabPatch = {
+  tabName: string;
+  existingRows: string[][];
+  // Rows whose column A matches one of these keys (a WeekId, or a Meta key) are deleted.
+  removeKeys: Set<string>;
+  // Row indexes into existingRows deleted as well, for removing one of several rows that share a key.
+  removeIndexes?: Set<number>;
+  updates?: Array<{ index: number; values: string[] }>;
+  appendRows?: string[][];
+};
+
+const NUMERIC_CELL = /^-?\d+(\.\d+)?$/;
+
+function toCellData(value: string): CellData {
+  // Plain numbers stay numeric; everything else is stored as text so raw chat lines are never read as formulas.
+  return NUMERIC_CELL.test(value)
+    ? { userEnteredValue: { numberValue: Number(value) } }
+    : { userEnteredValue: { stringValue: value } };
+}
+
+function groupAdjacentCells<T extends { column: number }>(cells: T[]): T[][] {
+  const runs: T[][] = [];
+  for (const cell of cells) {
+    const last = runs[runs.length - 1];
+    if (last && last[last.length - 1].column === cell.column - 1) {
+      last.push(cell);
+    } else {
+      runs.push([cell]);
+    }
+  }
+  return runs;
+}
+
+function contiguousRuns(indices: number[]): Array<{ start: number; end: number }> {
+  const runs: Array<{ start: number; end: number }> = [];
+  for (const index of indices) {
+    const last = runs[runs.length - 1];
+    if (last && last.end === index) {
+      last.end = index + 1;
+    } else {
+      runs.push({ start: index, end: index + 1 });
+    }
+  }
+  return runs;
+}
+
 function encodeA1Part(value: string): string {
   return value.replace(/'/g, "''");
 }
@@ -23,19 +93,128 @@ function a1(sheetName: string, range = "A:Z"): string {
   return `'${encodeA1Part(sheetName)}'!${range}`;
 }
 
-const DATA_SETUP_RANGES = {
-  allowlist: a1("Allowlist", "A2:A"),
-  bosses: a1("Bosses", "A2:B"),
-  bossAliases: a1("BossAliases", "A2:B"),
-  nameAliases: a1("NameAliases", "A2:B"),
-  config: a1("Config", "A2:B"),
-  weeks: a1("Weeks", "A2:G")
+function columnLetter(index: number): string {
+  let letter = "";
+  for (let remaining = index + 1; remaining > 0; remaining = Math.floor((remaining - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((remaining - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+function normalizeHeader(value: string): string {
+  return (value || "").trim().toLowerCase();
+}
+
+function schemaHeaders(tabName: string): string[] | undefined {
+  return SHEET_SCHEMAS.find((schema) => schema.name === tabName)?.headers;
+}
+
+/**
+ * For each schema column, the index of the sheet column with the same header (or -1). A blank header row means the
+ * tab predates header validation, so columns are taken positionally.
+ */
+function columnOrder(sheetHeader: string[], expected: string[]): number[] {
+  if (!sheetHeader.some((cell) => (cell || "").trim())) {
+    return expected.map((_, index) => index);
+  }
+  const positions = sheetHeader.map(normalizeHeader);
+  return expected.map((header) => positions.indexOf(normalizeHeader(header)));
+}
+
+/** Drops the header row and reorders every data row into schema column order, matching columns by name. */
+function alignTabValues(tabName: string, values: string[][]): string[][] {
+  const expected = schemaHeaders(tabName);
+  const rows = values.slice(1);
+  if (!expected) {
+    return rows;
+  }
+  const order = columnOrder(values[0] || [], expected);
+  return rows.map((row) => order.map((index) => (index === -1 ? "" : row[index] || "")));
+}
+
+const DATA_SETUP_TABS = {
+  allowlist: "Allowlist",
+  bosses: "Bosses",
+  bossAliases: "BossAliases",
+  nameAliases: "NameAliases",
+  modifiers: "Modifiers",
+  activityTiers: "ActivityTiers",
+  config: "Config",
+  weeks: "Weeks",
+  meta: "Meta"
 };
 
-const WEEK_STORAGE_RANGES = {
-  weeks: a1("Weeks", "A2:G"),
-  totals: a1("WeekUserTotals", "A2:E"),
-  breakdown: a1("WeekBossBreakdown", "A2:E")
+const PENDING_WRITE_KEY = "pending_write";
+// A week write normally commits within a minute or two; younger markers may belong to a save still in progress.
+const STALE_PENDING_WRITE_MS = 15 * 60 * 1000;
+const SCHEMA_VERSION_KEY = "schema_version";
+const REVISION_KEYS = {
+  revision: "revision",
+  updatedBy: "revision_by",
+  updatedUtc: "revision_utc",
+  note: "revision_note",
+  scope: "revision_scope"
+};
+
+export class RevisionConflictError extends Error {
+  constructor(
+    readonly expected: number,
+    readonly remote: DataRevision
+  ) {
+    super(
+      `The data sheet changed after you loaded it (revision ${expected} -> ${remote.revision}` +
+        `${remote.updatedBy ? ` by ${remote.updatedBy}` : ""}).`
+    );
+    this.name = "RevisionConflictError";
+  }
+}
+
+export function parseRevision(metaRows: string[][]): DataRevision {
+  const values = new Map(metaRows.filter((row) => row[0]).map((row) => [row[0], row[1] || ""]));
+  const revision = Number(values.get(REVISION_KEYS.revision) || 0);
+  return {
+    revision: Number.isInteger(revision) && revision > 0 ? revision : 0,
+    updatedBy: values.get(REVISION_KEYS.updatedBy) || "",
+    updatedUtc: values.get(REVISION_KEYS.updatedUtc) || "",
+    note: values.get(REVISION_KEYS.note) || "",
+    scope: values.get(REVISION_KEYS.scope) || ""
+  };
+}
+
+function parseSchemaVersion(metaRows: string[][]): number {
+  const version = Number(metaRows.find((row) => row[0] === SCHEMA_VERSION_KEY)?.[1] || 1);
+  return Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+export function nextRevision(current: DataRevision, stamp: Omit<DataRevision, "revision">): DataRevision {
+  return { ...stamp, revision: current.revision + 1 };
+}
+
+/** Replaces the revision keys in the Meta tab; `extraKeys` lets a caller clear other markers in the same patch. */
+export function revisionPatch(metaRows: string[][], next: DataRevision, extraKeys: string[] = []): WeekTabPatch {
+  return {
+    tabName: "Meta",
+    existingRows: metaRows,
+    removeKeys: new Set([...Object.values(REVISION_KEYS), ...extraKeys]),
+    appendRows: [
+      [REVISION_KEYS.revision, String(next.revision)],
+      [REVISION_KEYS.updatedBy, next.updatedBy],
+      [REVISION_KEYS.updatedUtc, next.updatedUtc],
+      [REVISION_KEYS.note, next.note],
+      [REVISION_KEYS.scope, next.scope]
+    ]
+  };
+}
+
+const WEEK_STORAGE_TABS = {
+  weeks: "Weeks",
+  totals: "WeekUserTotals",
+  breakdown: "WeekBossBreakdown",
+  events: "WeekEvents",
+  sources: "WeekSources",
+  adjustments: "WeekAdjustments",
+  balances: "Balances",
+  spending: "Spending"
 };
 
 function sleep(ms: number): Promise<void> {
@@ -57,32 +236,168 @@ function shouldRetryStatus(status: number): boolean {
   return status === 429 || status === 500 || status === 503;
 }
 
-export class SheetsClient {
-  constructor(private readonly accessToken: string) {}
+const MAX_RETRIES = 4;
+// Sheets allows 60 read and 60 write requests per minute per user; one shared budget keeps both under it.
+const REQUESTS_PER_MINUTE = 60;
 
-  private async request<T>(url: string, init?: RequestInit, attempt = 0): Promise<T> {
-    const method = (init?.method || "GET").toUpperCase();
-    const canRetry = method === "GET";
-    const response = await fetch(url, {
-      ...init,
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${this.accessToken}`,
-        ...(init?.headers || {})
+/**
+ * GETs, PUT updates, values:batchUpdate and clears write the same cells every time, so any transient failure can be
+ * retried. Appends and spreadsheets.batchUpdate (row deletes, appendCells) would duplicate work if the first attempt
+ * landed, so they only retry on 429, which Google returns before applying anything.
+ */
+function isIdempotentRequest(url: string, method: string): boolean {
+  return method === "GET" || method === "PUT" || url.includes("/values:batchUpdate") || url.endsWith(":clear");
+}
+
+export type SheetsActivity =
+  | { kind: "retrying"; attempt: number; maxAttempts: number; delayMs: number; status: number | null }
+  | { kind: "throttled"; delayMs: number }
+  | { kind: "settled" };
+
+const activityListeners = new Set<(activity: SheetsActivity) => void>();
+
+/** Subscribes to retry and throttle notices from every SheetsClient. Returns an unsubscribe function. */
+export function onSheetsActivity(listener: (activity: SheetsActivity) => void): () => void {
+  activityListeners.add(listener);
+  return () => {
+    activityListeners.delete(listener);
+  };
+}
+
+function emitActivity(activity: SheetsActivity): void {
+  for (const listener of activityListeners) {
+    listener(activity);
+  }
+}
+
+/** Sliding one-minute window shared by every client that uses the same access token. */
+class RequestThrottle {
+  private sentAt: number[] = [];
+  private tail: Promise<void> = Promise.resolve();
+
+  acquire(): Promise<boolean> {
+    const turn = this.tail.then(async () => {
+      let waited = false;
+      for (;;) {
+        const now = Date.now();
+        this.sentAt = this.sentAt.filter((time) => now - time < 60000);
+        if (this.sentAt.length < REQUESTS_PER_MINUTE) {
+          break;
+        }
+        const delayMs = 60000 - (now - this.sentAt[0]);
+        emitActivity({ kind: "throttled", delayMs });
+        waited = true;
+        await sleep(delayMs);
       }
+      this.sentAt.push(Date.now());
+      return waited;
     });
+    this.tail = turn.then(() => undefined);
+    return turn;
+  }
+}
+
+type AccessTokenRefresher = (expiredToken: string) => Promise<string>;
 
-    if (!response.ok && canRetry && shouldRetryStatus(response.status) && attempt < 4) {
-      const retryAfter = parseRetryAfterSeconds(response.headers.get("retry-after"));
-      await response.text();
-      const backoffMs =
-        retryAfter !== null
-          ? retryAfter * 1000
-          : 500 * 2 ** attempt + Math.floor(Math.random() * 250);
-      await sleep(backoffMs);
-      return this.request<T>(url, init, attempt + 1);
+let accessTokenRefresher: AccessTokenRefresher | null = null;
+let pendingRefresh: Promise<string> | null = null;
+
+/** Registers how SheetsClient obtains a new token after a 401; the app wires this to Google re-authentication. */
+export function setAccessTokenRefresher(refresher: AccessTokenRefresher | null): void {
+  accessTokenRefresher = refresher;
+}
+
+function refreshAccessToken(expiredToken: string): Promise<string> {
+  if (!accessTokenRefresher) {
+    return Promise.reject(new Error("Google session expired. Sign in again."));
+  }
+  // Parallel requests that all hit the expired token share one re-authentication.
+  if (!pendingRefresh) {
+    pendingRefresh = accessTokenRefresher(expiredToken).finally(() => {
+      pendingRefresh = null;
+    });
+  }
+  return pendingRefresh;
+}
+
+const throttles = new Map<string, RequestThrottle>();
+
+function throttleFor(accessToken: string): RequestThrottle {
+  let throttle = throttles.get(accessToken);
+  if (!throttle) {
+    throttle = new RequestThrottle();
+    throttles.set(accessToken, throttle);
+  }
+  return throttle;
+}
+
+export class SheetsClient {
+  constructor(private accessToken: string) {}
+
+  private async request<T>(url: string, init?: RequestInit): Promise<T> {
+    const method = (init?.method || "GET").toUpperCase();
+    const idempotent = isIdempotentRequest(url, method);
+    let noticed = false;
+    let reauthenticated = false;
+    try {
+      for (let attempt = 0; ; attempt += 1) {
+        noticed = (await throttleFor(this.accessToken).acquire()) || noticed;
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            ...init,
+            headers: {
+              "Content-Type": "application/json",
+              Authorization: `Bearer ${this.accessToken}`,
+              ...(init?.headers || {})
+            }
+          });
+        } catch (err) {
+          // A dropped connection may or may not have reached Google, so only idempotent requests go again.
+          if (!idempotent || attempt >= MAX_RETRIES) {
+            throw err;
+          }
+          noticed = true;
+          await this.backOff(attempt, null, null);
+          continue;
+        }
+
+        // Google rejects expired tokens before doing any work, so even non-idempotent writes can be replayed once.
+        if (response.status === 401 && !reauthenticated) {
+          await response.text();
+          this.accessToken = await refreshAccessToken(this.accessToken);
+          reauthenticated = true;
+          attempt -= 1;
+          continue;
+        }
+
+        const retryable = idempotent ? shouldRetryStatus(response.status) : response.status === 429;
+        if (!response.ok && retryable && attempt < MAX_RETRIES) {
+          const retryAfter = parseRetryAfterSeconds(response.headers.get("retry-after"));
+          await response.text();
+          noticed = true;
+          await this.backOff(attempt, response.status, retryAfter);
+          continue;
+        }
+        return await this.readResponse<T>(response);
+      }
+    } finally {
+      if (noticed) {
+        emitActivity({ kind: "settled" });
+      }
     }
+  }
 
+  private async backOff(attempt: number, status: number | null, retryAfterSeconds: number | null): Promise<void> {
+    const delayMs =
+      retryAfterSeconds !== null
+        ? retryAfterSeconds * 1000
+        : 500 * 2 ** attempt + Math.floor(Math.random() * 250);
+    emitActivity({ kind: "retrying", attempt: attempt + 2, maxAttempts: MAX_RETRIES + 1, delayMs, status });
+    await sleep(delayMs);
+  }
+
+  private async readResponse<T>(response: Response): Promise<T> {
     if (!response.ok) {
       const text = await response.text();
       throw new Error(`Sheets API error ${response.status}: ${text}`);
@@ -122,6 +437,19 @@ export class SheetsClient {
     return byRequestedRange;
   }
 
+  /** Reads whole tabs and returns their data rows in schema column order, keyed by tab name. */
+  async readTabs(spreadsheetId: string, tabNames: string[]): Promise<Record<string, string[][]>> {
+    const ranges = tabNames.map((tabName) => a1(tabName));
+    const byRange = await this.batchReadRanges(spreadsheetId, ranges);
+    return Object.fromEntries(
+      tabNames.map((tabName, index) => [tabName, alignTabValues(tabName, byRange[ranges[index]] || [])])
+    );
+  }
+
+  async readTab(spreadsheetId: string, tabName: string): Promise<string[][]> {
+    return alignTabValues(tabName, await this.readRange(spreadsheetId, a1(tabName)));
+  }
+
   async updateRange(spreadsheetId: string, range: string, values: string[][]): Promise<void> {
     const url = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}?valueInputOption=USER_ENTERED`;
     await this.request(url, {
@@ -130,8 +458,13 @@ export class SheetsClient {
     });
   }
 
-  async appendRange(spreadsheetId: string, range: string, values: string[][]): Promise<void> {
-    const url = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=USER_ENTERED`;
+  async appendRange(
+    spreadsheetId: string,
+    range: string,
+    values: string[][],
+    valueInputOption: "USER_ENTERED" | "RAW" = "USER_ENTERED"
+  ): Promise<void> {
+    const url = `https://sheets.googleapis.com/v4/spreadsheets/${spreadsheetId}/values/${encodeURIComponent(range)}:append?valueInputOption=${valueInputOption}`;
     await this.request(url, {
       method: "POST",
       body: JSON.stringify({ values })
@@ -174,10 +507,281 @@ export class SheetsClient {
     });
   }
 
-  async ensureSchema(spreadsheetId: string): Promise<void> {
+  /**
+   * Applies row-level changes to week-keyed tabs in a single spreadsheets.batchUpdate, so a save either lands
+   * completely or not at all. Row indexes refer to `existingRows` as read from A2 downward; updates run before the
+   * deletes (bottom-up) and the appends, which keeps those indexes valid while the requests are applied in order.
+   */
+  async patchWeekRows(spreadsheetId: string, patches: WeekTabPatch[]): Promise<void> {
+    const headerRanges = patches.map((patch) => a1(patch.tabName, "1:1"));
+    const [metadata, headerReads] = await Promise.all([
+      this.getSpreadsheetMetadata(spreadsheetId),
+      this.batchReadRanges(spreadsheetId, headerRanges)
+    ]);
+    const sheetIds = new Map(
+      (metadata.sheets || []).map((sheet) => [sheet.properties?.title || "", sheet.properties?.sheetId ?? 0])
+    );
+    const requests: unknown[] = [];
+
+    for (const [patchIndex, patch] of patches.entries()) {
+      const sheetId = sheetIds.get(patch.tabName);
+      if (sheetId === undefined) {
+        throw new Error(`Tab ${patch.tabName} is missing. Reload setup to recreate it.`);
+      }
+      // Patch rows arrive in schema order; place each value under the sheet column with the matching header.
+      const expected = schemaHeaders(patch.tabName);
+      const sheetHeader = headerReads[headerRanges[patchIndex]]?.[0] || [];
+      const order = expected ? columnOrder(sheetHeader, expected) : [];
+      const missing = expected?.filter((_, index) => order[index] === -1) || [];
+      if (missing.length > 0) {
+        throw new Error(`Tab ${patch.tabName} is missing column(s) ${missing.join(", ")}. Reload to run migrations.`);
+      }
+      const placeCells = (values: string[]): Array<{ column: number; value: string }> =>
+        values
+          .map((value, index) => ({ column: expected ? order[index] : index, value }))
+          .sort((a, b) => a.column - b.column);
+
+      for (const update of patch.updates || []) {
+        for (const run of groupAdjacentCells(placeCells(update.values))) {
+          requests.push({
+            updateCells: {
+              range: {
+                sheetId,
+                startRowIndex: update.index + 1,
+                endRowIndex: update.index + 2,
+                startColumnIndex: run[0].column,
+                endColumnIndex: run[run.length - 1].column + 1
+              },
+              rows: [{ values: run.map((cell) => toCellData(cell.value)) }],
+              fields: "userEnteredValue"
+            }
+          });
+        }
+      }
+
+      const removed = patch.existingRows
+        .map((row, index) => (patch.removeKeys.has(row[0] || "") || patch.removeIndexes?.has(index) ? index : -1))
+        .filter((index) => index !== -1);
+      for (const run of contiguousRuns(removed).reverse()) {
+        requests.push({
+          deleteDimension: {
+            range: { sheetId, dimension: "ROWS", startIndex: run.start + 1, endIndex: run.end + 1 }
+          }
+        });
+      }
+
+      if (patch.appendRows && patch.appendRows.length > 0) {
+        requests.push({
+          appendCells: {
+            sheetId,
+            rows: patch.appendRows.map((row) => {
+              const cells = placeCells(row);
+              const width = cells.length > 0 ? cells[cells.length - 1].column + 1 : 0;
+              const values: Array<CellData | Record<string, never>> = Array.from({ length: width }, () => ({}));
+              for (const cell of cells) {
+                values[cell.column] = toCellData(cell.value);
+              }
+              return { values };
+            }),
+            fields: "userEnteredValue"
+          }
+        });
+      }
+    }
+
+    if (requests.length > 0) {
+      await this.batchUpdate(spreadsheetId, { requests });
+    }
+  }
+
+  /**
+   * Reads the Meta tab and throws RevisionConflictError when its revision no longer matches the one the caller
+   * loaded. Pass `null` to skip the check (force overwrite). Sheets has no compare-and-set, so this narrows the
+   * race to the few hundred milliseconds between the check and the write rather than closing it.
+   */
+  async checkRevision(
+    spreadsheetId: string,
+    expected: number | null
+  ): Promise<{ revision: DataRevision; metaRows: string[][] }> {
+    const metaRows = await this.readTab(spreadsheetId, "Meta");
+    const revision = parseRevision(metaRows);
+    if (expected !== null && revision.revision !== expected) {
+      throw new RevisionConflictError(expected, revision);
+    }
+    return { revision, metaRows };
+  }
+
+  async ensureTabs(spreadsheetId: string, schemas: TabSchema[]): Promise<void> {
+    const metadata = await this.getSpreadsheetMetadata(spreadsheetId);
+    const existing = new Set((metadata.sheets || []).map((sheet) => sheet.properties?.title || ""));
+    const missing = schemas.filter((schema) => !existing.has(schema.name));
+    if (missing.length === 0) {
+      return;
+    }
+    await this.batchUpdate(spreadsheetId, {
+      requests: missing.map((schema) => ({ addSheet: { properties: { title: schema.name } } }))
+    });
+    await this.batchUpdateValues(
+      spreadsheetId,
+      missing.map((schema) => ({ range: a1(schema.name, "A1"), values: [schema.headers] }))
+    );
+  }
+
+  /**
+   * Undoes week writes that never reached their commit. The live tabs and the marker removal share one atomic
+   * batchUpdate, so a surviving marker means only the archive append may have landed; it is trimmed back to the
+   * row counts captured before the write started. Markers younger than STALE_PENDING_WRITE_MS are left alone since
+   * another officer's save may still be running. The rollback bumps the revision, so a save that was only slow fails
+   * its commit-time revision check instead of committing over the trimmed archive.
+   */
+  private async rollBackPendingWrites(spreadsheetId: string, metaRows: string[][]): Promise<string | null> {
+    const now = DateTime.utc().toMillis();
+    const stale = metaRows
+      .map((row, index) => ({ row, index }))
+      .filter(({ row }) => row[0] === PENDING_WRITE_KEY)
+      .map(({ row, index }) => {
+        try {
+          return { index, write: JSON.parse(row[1] || "") as PendingWeekWrite };
+        } catch {
+          return { index, write: null };
+        }
+      })
+      .filter(({ write }) => {
+        const started = write?.startedUtc ? DateTime.fromISO(write.startedUtc, { zone: "utc" }) : null;
+        return !started?.isValid || now - started.toMillis() >= STALE_PENDING_WRITE_MS;
+      });
+    if (stale.length === 0) {
+      return null;
+    }
+
+    for (const { write } of stale) {
+      if (!write?.archiveSpreadsheetId || !write.archiveRowCounts) {
+        continue;
+      }
+      const counts = write.archiveRowCounts;
+      const tabs = Object.keys(counts);
+      const [metadata, current] = await Promise.all([
+        this.getSpreadsheetMetadata(write.archiveSpreadsheetId),
+        this.batchReadRanges(write.archiveSpreadsheetId, tabs.map((tab) => a1(tab, "A2:A")))
+      ]);
+      const sheetIds = new Map(
+        (metadata.sheets || []).map((sheet) => [sheet.properties?.title || "", sheet.properties?.sheetId ?? 0])
+      );
+      const requests = tabs.flatMap((tab) => {
+        const sheetId = sheetIds.get(tab);
+        const length = (current[a1(tab, "A2:A")] || []).length;
+        if (sheetId === undefined || length <= counts[tab]) {
+          return [];
+        }
+        return [
+          {
+            deleteDimension: {
+              range: { sheetId, dimension: "ROWS", startIndex: counts[tab] + 1, endIndex: length + 1 }
+            }
+          }
+        ];
+      });
+      if (requests.length > 0) {
+        await this.batchUpdate(write.archiveSpreadsheetId, { requests });
+      }
+    }
+
+    const weekIds = stale.map(({ write }) => write?.weekId).filter(Boolean);
+    const next = nextRevision(parseRevision(metaRows), {
+      updatedBy: "",
+      updatedUtc: DateTime.utc().toISO() || "",
+      note: `Rolled back an interrupted week write${weekIds.length > 0 ? ` (${weekIds.join(", ")})` : ""}`,
+      scope: weekIds.join(",")
+    });
+    await this.patchWeekRows(spreadsheetId, [
+      { ...revisionPatch(metaRows, next), removeIndexes: new Set(stale.map(({ index }) => index)) }
+    ]);
+    return weekIds.length > 0
+      ? `Rolled back an interrupted write for week(s) ${weekIds.join(", ")}. Stored history is unchanged; repeat the save.`
+      : "Rolled back an interrupted week write. Stored history is unchanged.";
+  }
+
+  private async applyMigrationStep(spreadsheetId: string, step: MigrationStep): Promise<void> {
+    const values = await this.readRange(spreadsheetId, a1(step.tab));
+    const header = values[0] || [];
+    const rows = values.slice(1);
+    const positions = header.map(normalizeHeader);
+    const toRecord = (row: string[]): MigrationRow =>
+      Object.fromEntries(header.map((name, index) => [name.trim(), row[index] || ""]));
+    const writeColumn = async (column: number, cells: string[]) => {
+      if (cells.length === 0) {
+        return;
+      }
+      const letter = columnLetter(column);
+      await this.updateRange(
+        spreadsheetId,
+        a1(step.tab, `${letter}2:${letter}${cells.length + 1}`),
+        cells.map((cell) => [cell])
+      );
+    };
+
+    if (step.kind === "renameColumn") {
+      const from = positions.indexOf(normalizeHeader(step.from));
+      if (from !== -1 && !positions.includes(normalizeHeader(step.to))) {
+        await this.updateRange(spreadsheetId, a1(step.tab, `${columnLetter(from)}1`), [[step.to]]);
+      }
+      return;
+    }
+    if (step.kind === "addColumn") {
+      if (positions.includes(normalizeHeader(step.column))) {
+        return;
+      }
+      const column = header.length;
+      await this.updateRange(spreadsheetId, a1(step.tab, `${columnLetter(column)}1`), [[step.column]]);
+      if (step.fill) {
+        await writeColumn(column, rows.map((row) => step.fill!(toRecord(row))));
+      }
+      return;
+    }
+    const column = positions.indexOf(normalizeHeader(step.column));
+    if (column === -1) {
+      throw new Error(`Migration cannot backfill ${step.tab}.${step.column}: the column does not exist.`);
+    }
+    await writeColumn(
+      column,
+      rows.map((row) => row[column] || step.value(toRecord(row)))
+    );
+  }
+
+  /** Runs every migration newer than the sheet's schema_version, stamping the version after each one. */
+  private async migrate(spreadsheetId: string, fromVersion: number): Promise<void> {
+    for (const migration of MIGRATIONS.filter((candidate) => candidate.version > fromVersion)) {
+      for (const step of migration.steps) {
+        await this.applyMigrationStep(spreadsheetId, step);
+      }
+      const metaRows = await this.readTab(spreadsheetId, "Meta");
+      await this.patchWeekRows(spreadsheetId, [
+        {
+          tabName: "Meta",
+          existingRows: metaRows,
+          removeKeys: new Set([SCHEMA_VERSION_KEY]),
+          appendRows: [[SCHEMA_VERSION_KEY, String(migration.version)]]
+        }
+      ]);
+    }
+  }
+
+  /**
+   * Creates missing tabs and headers, rolls back any interrupted week write and migrates the sheet to the current
+   * schema version. Refuses sheets written by a newer app. Returns a recovery note, if any.
+   */
+  async ensureSchema(spreadsheetId: string): Promise<string | null> {
     const metadata = await this.getSpreadsheetMetadata(spreadsheetId);
     const existing = new Set((metadata.sheets || []).map((sheet) => sheet.properties?.title || ""));
 
+    const schemaVersion = existing.has("Meta") ? parseSchemaVersion(await this.readTab(spreadsheetId, "Meta")) : 1;
+    if (schemaVersion > SCHEMA_VERSION) {
+      throw new Error(
+        `This data sheet uses schema version ${schemaVersion}, but this app only supports up to version ` +
+          `${SCHEMA_VERSION}. Reload the page to pick up the latest app before editing it.`
+      );
+    }
+
     const addRequests = SHEET_SCHEMAS.filter((schema) => !existing.has(schema.name)).map((schema) => ({
       addSheet: {
         properties: {
@@ -191,7 +795,10 @@ export class SheetsClient {
     }
 
     const headerRanges = SHEET_SCHEMAS.map((schema) => a1(schema.name, "1:1"));
-    const allReads = await this.batchReadRanges(spreadsheetId, [...headerRanges, DATA_SETUP_RANGES.config]);
+    const [allReads, tabs] = await Promise.all([
+      this.batchReadRanges(spreadsheetId, headerRanges),
+      this.readTabs(spreadsheetId, ["Config", "Meta"])
+    ]);
     const headerUpdates: Array<{ range: string; values: string[][] }> = [];
 
     for (const schema of SHEET_SCHEMAS) {
@@ -199,15 +806,24 @@ export class SheetsClient {
       const firstRow = headerValues[0] || [];
       const hasValues = firstRow.some((cell) => cell.trim() !== "");
       if (!hasValues) {
+        // A fresh Modifiers tab is seeded with the built-in synonyms so existing timer files keep parsing, and a fresh
+        // ActivityTiers tab with the Low/Medium/High split the Config thresholds described. The seeded minimums are
+        // strict (">4"), matching the old `points <= activity_low_max` rule, so existing weeks keep their levels.
+        const seedRows =
+          schema.name === "Modifiers"
+            ? DEFAULT_MODIFIERS.map(formatModifierRow)
+            : schema.name === "ActivityTiers"
+              ? tiersFromLegacyConfig(parseConfigRows(tabs.Config)).map(formatTierRow)
+              : [];
         headerUpdates.push({
           range: a1(schema.name, "A1"),
-          values: [schema.headers]
+          values: [schema.headers, ...seedRows]
         });
       }
     }
     await this.batchUpdateValues(spreadsheetId, headerUpdates);
 
-    const existingConfig = allReads[DATA_SETUP_RANGES.config] || [];
+    const existingConfig = tabs.Config;
     const keys = new Set(existingConfig.map((row) => row[0]).filter(Boolean));
     const missingEntries = Object.entries(DEFAULT_CONFIG).filter(([key]) => !keys.has(key));
     if (missingEntries.length > 0) {
@@ -217,13 +833,17 @@ export class SheetsClient {
         missingEntries.map(([key, value]) => [key, value])
       );
     }
+
+    const recovery = await this.rollBackPendingWrites(spreadsheetId, tabs.Meta);
+    await this.migrate(spreadsheetId, schemaVersion);
+    return recovery;
   }
 }
 
-function parseAllowlistRows(rows: string[][]): string[] {
+function parseAllowlistRows(rows: string[][]): AllowlistEntry[] {
   return rows
-    .map((row) => (row[0] || "").trim().toLowerCase())
-    .filter(Boolean);
+    .filter((row) => (row[0] || "").trim())
+    .map((row) => ({ email: row[0].trim().toLowerCase(), role: parseRole(row[1]) }));
 }
 
 function parseUsersRows(rows: string[][]): string[] {
@@ -242,7 +862,7 @@ function parseUsersRows(rows: string[][]): string[] {
 function parseBossRows(rows: string[][]): BossConfig[] {
   return rows
     .filter((row) => row[0])
-    .map((row) => ({ boss: row[0].trim(), points: Number(row[1] || 0) }));
+    .map((row) => ({ boss: row[0].trim(), points: Number(row[1] || 0), effectiveFrom: (row[2] || "").trim() }));
 }
 
 function parseAliasRows(rows: string[][]): AliasRow[] {
@@ -251,6 +871,47 @@ function parseAliasRows(rows: string[][]): AliasRow[] {
     .map((row) => ({ alias: row[0].trim(), canonical: row[1].trim() }));
 }
 
+const MODIFIER_EFFECTS: Record<string, ModifierEffect> = {
+  bonus: "bonus",
+  add: "bonus",
+  additive: "bonus",
+  multiplier: "multiplier",
+  multiply: "multiplier",
+  override: "override",
+  set: "override"
+};
+
+function parseModifierRows(rows: string[][]): ModifierConfig[] {
+  const out: ModifierConfig[] = [];
+  for (const row of rows) {
+    const synonym = (row[0] || "").trim();
+    const effect = MODIFIER_EFFECTS[(row[1] || "").trim().toLowerCase()];
+    const value = Number((row[2] || "").trim());
+    if (!synonym || !effect || !Number.isFinite(value)) {
+      continue;
+    }
+    out.push({ synonym, effect, value });
+  }
+  return out;
+}
+
+export function formatModifierRow(modifier: ModifierConfig): string[] {
+  return [modifier.synonym, modifier.effect, String(modifier.value)];
+}
+
+function parseAuditRows(rows: string[][]): AuditEntry[] {
+  return rows
+    .filter((row) => row[0] && row[2])
+    .map((row) => ({
+      timestampUtc: row[0],
+      email: row[1] || "",
+      action: row[2] as AuditAction,
+      target: row[3] || "",
+      before: row[4] || "",
+      after: row[5] || ""
+    }));
+}
+
 function parseConfigRows(rows: string[][]): Record<string, string> {
   const config = { ...DEFAULT_CONFIG };
   for (const row of rows) {
@@ -277,12 +938,15 @@ function parseWeeksRows(rows: string[][]): StoredWeek[] {
 }
 
 export type DataSheetSetupBundle = {
-  allowlist: string[];
+  allowlist: AllowlistEntry[];
   bosses: BossConfig[];
   bossAliases: AliasRow[];
   nameAliases: AliasRow[];
+  modifiers: ModifierConfig[];
+  activityTiers: ActivityTier[];
   config: Record<string, string>;
   weeks: StoredWeek[];
+  revision: DataRevision;
 };
 
 export type SetupBundle = DataSheetSetupBundle & {
@@ -293,15 +957,17 @@ export async function loadDataSheetSetupBundle(
   client: SheetsClient,
   dataSpreadsheetId: string
 ): Promise<DataSheetSetupBundle> {
-  const ranges = Object.values(DATA_SETUP_RANGES);
-  const byRange = await client.batchReadRanges(dataSpreadsheetId, ranges);
+  const byTab = await client.readTabs(dataSpreadsheetId, Object.values(DATA_SETUP_TABS));
   return {
-    allowlist: parseAllowlistRows(byRange[DATA_SETUP_RANGES.allowlist] || []),
-    bosses: parseBossRows(byRange[DATA_SETUP_RANGES.bosses] || []),
-    bossAliases: parseAliasRows(byRange[DATA_SETUP_RANGES.bossAliases] || []),
-    nameAliases: parseAliasRows(byRange[DATA_SETUP_RANGES.nameAliases] || []),
-    config: parseConfigRows(byRange[DATA_SETUP_RANGES.config] || []),
-    weeks: parseWeeksRows(byRange[DATA_SETUP_RANGES.weeks] || [])
+    allowlist: parseAllowlistRows(byTab[DATA_SETUP_TABS.allowlist]),
+    bosses: parseBossRows(byTab[DATA_SETUP_TABS.bosses]),
+    bossAliases: parseAliasRows(byTab[DATA_SETUP_TABS.bossAliases]),
+    nameAliases: parseAliasRows(byTab[DATA_SETUP_TABS.nameAliases]),
+    modifiers: parseModifierRows(byTab[DATA_SETUP_TABS.modifiers]),
+    activityTiers: parseActivityTierRows(byTab[DATA_SETUP_TABS.activityTiers]),
+    config: parseConfigRows(byTab[DATA_SETUP_TABS.config]),
+    weeks: parseWeeksRows(byTab[DATA_SETUP_TABS.weeks]),
+    revision: parseRevision(byTab[DATA_SETUP_TABS.meta])
   };
 }
 
@@ -326,20 +992,45 @@ export async function loadWeekStorageBundle(
   dataSpreadsheetId: string
 ): Promise<{
   weeks: StoredWeek[];
+  weeksRaw: string[][];
   totalsRaw: string[][];
   breakdownRaw: string[][];
+  eventsRaw: string[][];
+  sourcesRaw: string[][];
+  adjustmentsRaw: string[][];
+  balancesRaw: string[][];
+  spendingRaw: string[][];
 }> {
-  const ranges = Object.values(WEEK_STORAGE_RANGES);
-  const byRange = await client.batchReadRanges(dataSpreadsheetId, ranges);
+  const byTab = await client.readTabs(dataSpreadsheetId, Object.values(WEEK_STORAGE_TABS));
   return {
-    weeks: parseWeeksRows(byRange[WEEK_STORAGE_RANGES.weeks] || []),
-    totalsRaw: byRange[WEEK_STORAGE_RANGES.totals] || [],
-    breakdownRaw: byRange[WEEK_STORAGE_RANGES.breakdown] || []
+    weeks: parseWeeksRows(byTab[WEEK_STORAGE_TABS.weeks]),
+    weeksRaw: byTab[WEEK_STORAGE_TABS.weeks],
+    totalsRaw: byTab[WEEK_STORAGE_TABS.totals],
+    breakdownRaw: byTab[WEEK_STORAGE_TABS.breakdown],
+    eventsRaw: byTab[WEEK_STORAGE_TABS.events],
+    sourcesRaw: byTab[WEEK_STORAGE_TABS.sources],
+    adjustmentsRaw: byTab[WEEK_STORAGE_TABS.adjustments],
+    balancesRaw: byTab[WEEK_STORAGE_TABS.balances],
+    spendingRaw: byTab[WEEK_STORAGE_TABS.spending]
   };
 }
 
-export async function loadAllowlistEmails(client: SheetsClient, dataSpreadsheetId: string): Promise<string[]> {
-  const rows = await client.readRange(dataSpreadsheetId, a1("Allowlist", "A2:A"));
+export function weekAdjustmentsFromRows(rows: string[][], weekId: string): WeekAdjustment[] {
+  return rows
+    .filter((row) => row[0] === weekId && row[1])
+    .map((row) => ({ name: row[1].trim(), points: Number(row[2] || 0), reason: (row[3] || "").trim() }));
+}
+
+export async function loadWeekAdjustments(
+  client: SheetsClient,
+  dataSpreadsheetId: string,
+  weekId: string
+): Promise<WeekAdjustment[]> {
+  return weekAdjustmentsFromRows(await client.readTab(dataSpreadsheetId, WEEK_STORAGE_TABS.adjustments), weekId);
+}
+
+export async function loadAllowlist(client: SheetsClient, dataSpreadsheetId: string): Promise<AllowlistEntry[]> {
+  const rows = await client.readTab(dataSpreadsheetId, "Allowlist");
   return parseAllowlistRows(rows);
 }
 
@@ -353,7 +1044,7 @@ export async function loadUsersFromRange(
 }
 
 export async function loadBosses(client: SheetsClient, dataSpreadsheetId: string): Promise<BossConfig[]> {
-  const rows = await client.readRange(dataSpreadsheetId, a1("Bosses", "A2:B"));
+  const rows = await client.readTab(dataSpreadsheetId, "Bosses");
   return parseBossRows(rows);
 }
 
@@ -362,17 +1053,22 @@ export async function loadAliases(
   dataSpreadsheetId: string,
   tab: "BossAliases" | "NameAliases"
 ): Promise<AliasRow[]> {
-  const rows = await client.readRange(dataSpreadsheetId, a1(tab, "A2:B"));
+  const rows = await client.readTab(dataSpreadsheetId, tab);
   return parseAliasRows(rows);
 }
 
+export async function loadModifiers(client: SheetsClient, dataSpreadsheetId: string): Promise<ModifierConfig[]> {
+  const rows = await client.readTab(dataSpreadsheetId, "Modifiers");
+  return parseModifierRows(rows);
+}
+
 export async function loadConfig(client: SheetsClient, dataSpreadsheetId: string): Promise<Record<string, string>> {
-  const rows = await client.readRange(dataSpreadsheetId, a1("Config", "A2:B"));
+  const rows = await client.readTab(dataSpreadsheetId, "Config");
   return parseConfigRows(rows);
 }
 
 export async function loadWeeks(client: SheetsClient, dataSpreadsheetId: string): Promise<StoredWeek[]> {
-  const rows = await client.readRange(dataSpreadsheetId, a1("Weeks", "A2:G"));
+  const rows = await client.readTab(dataSpreadsheetId, "Weeks");
   return parseWeeksRows(rows);
 }
 
@@ -380,14 +1076,45 @@ export async function loadWeekUserTotalsRaw(
   client: SheetsClient,
   dataSpreadsheetId: string
 ): Promise<string[][]> {
-  return client.readRange(dataSpreadsheetId, a1("WeekUserTotals", "A2:E"));
+  return client.readTab(dataSpreadsheetId, "WeekUserTotals");
 }
 
 export async function loadWeekBossBreakdownRaw(
   client: SheetsClient,
   dataSpreadsheetId: string
 ): Promise<string[][]> {
-  return client.readRange(dataSpreadsheetId, a1("WeekBossBreakdown", "A2:E"));
+  return client.readTab(dataSpreadsheetId, "WeekBossBreakdown");
+}
+
+export async function loadWeekEventsRaw(client: SheetsClient, dataSpreadsheetId: string): Promise<string[][]> {
+  return client.readTab(dataSpreadsheetId, "WeekEvents");
+}
+
+export async function loadWeekSourcesRaw(client: SheetsClient, dataSpreadsheetId: string): Promise<string[][]> {
+  return client.readTab(dataSpreadsheetId, "WeekSources");
+}
+
+export type TabReplacement = {
+  tabName: string;
+  headers: string[];
+  rows: string[][];
+};
+
+/** Checks the revision, rewrites each tab, then bumps the revision. Returns the revision now stored in Meta. */
+export async function replaceTabsAtRevision(
+  client: SheetsClient,
+  dataSpreadsheetId: string,
+  expected: number | null,
+  tabs: TabReplacement[],
+  stamp: Omit<DataRevision, "revision">
+): Promise<DataRevision> {
+  const { revision, metaRows } = await client.checkRevision(dataSpreadsheetId, expected);
+  await Promise.all(
+    tabs.map((tab) => replaceTabRows(client, dataSpreadsheetId, tab.tabName, tab.headers, tab.rows))
+  );
+  const next = nextRevision(revision, stamp);
+  await client.patchWeekRows(dataSpreadsheetId, [revisionPatch(metaRows, next)]);
+  return next;
 }
 
 export async function replaceTabRows(
@@ -401,6 +1128,66 @@ export async function replaceTabRows(
   await client.updateRange(dataSpreadsheetId, a1(tabName, "A1"), [headers, ...rows]);
 }
 
+/**
+ * Records a pending week write in the Meta tab before anything else is touched. The returned Meta rows feed
+ * `commitWeekWritePatch`, whose removal of the marker rides in the same batchUpdate as the week rows.
+ */
+export async function beginWeekWrite(
+  client: SheetsClient,
+  dataSpreadsheetId: string,
+  pending: PendingWeekWrite
+): Promise<string[][]> {
+  await appendRows(client, dataSpreadsheetId, "Meta", [[PENDING_WRITE_KEY, JSON.stringify(pending)]]);
+  return client.readTab(dataSpreadsheetId, "Meta");
+}
+
+export function commitWeekWritePatch(metaRows: string[][], next: DataRevision): WeekTabPatch {
+  return revisionPatch(metaRows, next, [PENDING_WRITE_KEY]);
+}
+
+export async function countArchiveRows(
+  client: SheetsClient,
+  archiveSpreadsheetId: string
+): Promise<Record<string, number>> {
+  await client.ensureTabs(archiveSpreadsheetId, ARCHIVE_SCHEMAS);
+  const ranges = ARCHIVE_SCHEMAS.map((schema) => a1(schema.name, "A2:A"));
+  const byRange = await client.batchReadRanges(archiveSpreadsheetId, ranges);
+  return Object.fromEntries(
+    ARCHIVE_SCHEMAS.map((schema, index) => [schema.name, (byRange[ranges[index]] || []).length])
+  );
+}
+
+/**
+ * Appends purged week history to the Archive* tabs, creating them on first use. The archive may live in the data
+ * spreadsheet itself or in a separate one configured via history_archive_spreadsheet_id.
+ */
+export async function archiveWeekRows(
+  client: SheetsClient,
+  archiveSpreadsheetId: string,
+  rowsByTab: Record<string, string[][]>
+): Promise<void> {
+  await client.ensureTabs(archiveSpreadsheetId, ARCHIVE_SCHEMAS);
+  for (const [tabName, rows] of Object.entries(rowsByTab)) {
+    await appendRows(client, archiveSpreadsheetId, `Archive${tabName}`, rows);
+  }
+}
+
+/** Appends audit entries as raw text so free-form summaries are never read as formulas. */
+export async function appendAuditEntries(
+  client: SheetsClient,
+  dataSpreadsheetId: string,
+  entries: AuditEntry[]
+): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+  await client.appendRange(dataSpreadsheetId, a1("AuditLog", "A2"), entries.map(toAuditRow), "RAW");
+}
+
+export async function loadAuditLog(client: SheetsClient, dataSpreadsheetId: string): Promise<AuditEntry[]> {
+  return parseAuditRows(await client.readTab(dataSpreadsheetId, "AuditLog"));
+}
+
 export async function appendRows(
   client: SheetsClient,
   dataSpreadsheetId: string,
@@ -0,0 +1,88 @@
+export type StandingsCell = {
+  totalPoints: number;
+  activityLevel: string;
+};
+
+export type StandingsRow = {
+  name: string;
+  cells: Record<string, StandingsCell>;
+  total: number;
+  /** Average over the weeks in range the member has a stored row for. */
+  average: number;
+  weeksPresent: number;
+  rank: number;
+  /** Rank over the same range without its last week; null when the member had no points before it. */
+  previousRank: number | null;
+};
+
+/** Every week id in WeekUserTotals, oldest first. */
+export function standingsWeekIds(totalsRaw: string[][]): string[] {
+  return Array.from(new Set(totalsRaw.map((row) => row[0]).filter(Boolean))).sort((a, b) => a.localeCompare(b));
+}
+
+function rankByTotal(totals: Map<string, number>): Map<string, number> {
+  const ordered = Array.from(totals.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+  const ranks = new Map<string, number>();
+  ordered.forEach(([name, total], index) => {
+    const previous = ordered[index - 1];
+    // Ties share a rank, so two members on 40 pts are both 3rd and the next is 5th.
+    ranks.set(name, previous && previous[1] === total ? ranks.get(previous[0])! : index + 1);
+  });
+  return ranks;
+}
+
+/**
+ * Builds the member × week matrix for `weekIds` (oldest first) from raw WeekUserTotals rows. Ranks order members by
+ * their total over the range; the previous rank repeats that without the newest week, so the difference is the
+ * movement the latest week caused.
+ */
+export function buildStandingsMatrix(totalsRaw: string[][], weekIds: string[]): StandingsRow[] {
+  const inRange = new Set(weekIds);
+  const latestWeekId = weekIds[weekIds.length - 1];
+  const byName = new Map<string, Record<string, StandingsCell>>();
+  for (const row of totalsRaw) {
+    const [weekId, name, points, level] = row;
+    if (!weekId || !name || !inRange.has(weekId)) {
+      continue;
+    }
+    if (!byName.has(name)) {
+      byName.set(name, {});
+    }
+    byName.get(name)![weekId] = { totalPoints: Number(points || 0), activityLevel: level || "" };
+  }
+
+  const totals = new Map<string, number>();
+  const previousTotals = new Map<string, number>();
+  for (const [name, cells] of byName) {
+    let total = 0;
+    let previous = 0;
+    for (const [weekId, cell] of Object.entries(cells)) {
+      total += cell.totalPoints;
+      if (weekId !== latestWeekId) {
+        previous += cell.totalPoints;
+      }
+    }
+    totals.set(name, total);
+    if (weekIds.length > 1 && Object.keys(cells).some((weekId) => weekId !== latestWeekId) && previous > 0) {
+      previousTotals.set(name, previous);
+    }
+  }
+
+  const ranks = rankByTotal(totals);
+  const previousRanks = rankByTotal(previousTotals);
+  return Array.from(byName.entries())
+    .map(([name, cells]) => {
+      const weeksPresent = Object.keys(cells).length;
+      const total = totals.get(name) || 0;
+      return {
+        name,
+        cells,
+        total,
+        average: weeksPresent > 0 ? total / weeksPresent : 0,
+        weeksPresent,
+        rank: ranks.get(name) || 0,
+        previousRank: previousRanks.get(name) ?? null
+      };
+    })
+    .sort((a, b) => a.rank - b.rank || a.name.localeCompare(b.name));
+}
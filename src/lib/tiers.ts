@@ -0,0 +1,112 @@
+import type { ActivityTier } from "../types";
+
+const LEGACY_COLORS = ["#9e9e9e", "#d9a441", "#4e8f4a"];
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * The original three tiers, rebuilt from activity_low_max and activity_medium_max. Used to seed a new ActivityTiers
+ * tab and as the fallback while that tab is empty.
+ *
+ * The old rule was `points <= lowMax` is Low, so Medium and High start strictly above the maxima (">4", ">9") rather
+ * than at lowMax + 1; otherwise a fractional total such as 4.5 would drop from Medium to Low after the migration.
+ */
+export function tiersFromLegacyConfig(config: Record<string, string>): ActivityTier[] {
+  const lowMax = Number(config.activity_low_max ?? "4");
+  const mediumMax = Number(config.activity_medium_max ?? "9");
+  return [
+    { name: "Low", minPoints: null, color: LEGACY_COLORS[0] },
+    { name: "Medium", minPoints: lowMax, aboveMin: true, color: LEGACY_COLORS[1] },
+    { name: "High", minPoints: mediumMax, aboveMin: true, color: LEGACY_COLORS[2] }
+  ];
+}
+
+/** Reads a MinPoints cell: blank is the catch-all, ">4" starts strictly above 4. Returns null when unparseable. */
+function parseMinPoints(rawMin: string): { minPoints: number | null; aboveMin: boolean } | null {
+  const aboveMin = rawMin.startsWith(">");
+  const minText = aboveMin ? rawMin.slice(1).trim() : rawMin;
+  const minPoints = minText ? Number(minText) : null;
+  if ((minPoints !== null && !Number.isFinite(minPoints)) || (aboveMin && minPoints === null)) {
+    return null;
+  }
+  return { minPoints, aboveMin };
+}
+
+/**
+ * Reads ActivityTiers rows, skipping unnamed tiers and unparseable minimums. A minimum of ">4" starts the tier strictly
+ * above 4. Colors must be hex, e.g. #4e8f4a.
+ */
+export function parseActivityTierRows(rows: string[][]): ActivityTier[] {
+  const out: ActivityTier[] = [];
+  for (const row of rows) {
+    const name = (row[0] || "").trim();
+    const min = parseMinPoints((row[1] || "").trim());
+    const color = (row[2] || "").trim();
+    if (!name || !min) {
+      continue;
+    }
+    const { minPoints, aboveMin } = min;
+    out.push({ name, minPoints, ...(aboveMin ? { aboveMin } : {}), color: HEX_COLOR.test(color) ? color : "" });
+  }
+  return out;
+}
+
+/** One message per row `parseActivityTierRows` would drop; rows with neither a name nor a minimum are ignored. */
+export function invalidTierRowMessages(rows: string[][]): string[] {
+  return rows.flatMap((row, index) => {
+    const name = (row[0] || "").trim();
+    const rawMin = (row[1] || "").trim();
+    if (!name && !rawMin) {
+      return [];
+    }
+    const label = `Tier row ${index + 1}${name ? ` (${name})` : ""}`;
+    if (!name) {
+      return [`${label}: enter a tier name.`];
+    }
+    if (!parseMinPoints(rawMin)) {
+      return [`${label}: min points "${rawMin}" must be blank, a number, or ">" and a number.`];
+    }
+    return [];
+  });
+}
+
+/** The configured tiers, or the legacy Low/Medium/High split while the ActivityTiers tab is empty. */
+export function resolveActivityTiers(tiers: ActivityTier[], config: Record<string, string>): ActivityTier[] {
+  return tiers.length > 0 ? sortTiers(tiers) : tiersFromLegacyConfig(config);
+}
+
+export function formatTierRow(tier: ActivityTier): string[] {
+  const minPoints = tier.minPoints === null ? "" : `${tier.aboveMin ? ">" : ""}${tier.minPoints}`;
+  return [tier.name, minPoints, tier.color];
+}
+
+/** Orders tiers from lowest to highest; a tier without a minimum is the catch-all at the bottom. */
+export function sortTiers(tiers: ActivityTier[]): ActivityTier[] {
+  return [...tiers].sort(
+    (a, b) =>
+      (a.minPoints ?? -Infinity) - (b.minPoints ?? -Infinity) || Number(Boolean(a.aboveMin)) - Number(Boolean(b.aboveMin))
+  );
+}
+
+function reachesTier(points: number, tier: ActivityTier): boolean {
+  if (tier.minPoints === null) {
+    return true;
+  }
+  return tier.aboveMin ? points > tier.minPoints : points >= tier.minPoints;
+}
+
+/** Returns the highest tier whose minimum the points reach, falling back to the lowest tier. */
+export function activityTierFor(points: number, tiers: ActivityTier[]): ActivityTier | undefined {
+  const sorted = sortTiers(tiers);
+  let match = sorted[0];
+  for (const tier of sorted) {
+    if (reachesTier(points, tier)) {
+      match = tier;
+    }
+  }
+  return match;
+}
+
+/** Position of a tier label from lowest to highest, or -1 for labels no longer defined. */
+export function tierRank(name: string, tiers: ActivityTier[]): number {
+  return sortTiers(tiers).findIndex((tier) => tier.name === name);
+}
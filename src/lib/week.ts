@@ -1,19 +1,101 @@
-import { DateTime } from "luxon";
-import type { WeekBounds } from "../types";
+import { DateTime, IANAZone } from "luxon";
+import type { WeekBounds, WeekStartSettings } from "../types";
+
+const WEEKDAY_CODES = ["MON", "TUE", "WED", "THU", "FRI", "SAT", "SUN"];
+
+export const DEFAULT_WEEK_START: WeekStartSettings = {
+  weekday: 7,
+  hour: 0,
+  timezone: "UTC"
+};
 
 export function getBrowserTimezone(): string {
   return Intl.DateTimeFormat().resolvedOptions().timeZone || "UTC";
 }
 
-export function weekBoundsFromUtcSunday(weekStartUtcDate: string): WeekBounds {
-  const start = DateTime.fromISO(weekStartUtcDate, { zone: "utc" }).startOf("day");
+function parseWeekday(value: string | undefined): number | undefined {
+  const key = (value || "").trim().slice(0, 3).toUpperCase();
+  const index = WEEKDAY_CODES.indexOf(key);
+  return index === -1 ? undefined : index + 1;
+}
+
+function parseHour(value: string | undefined): number | undefined {
+  const hour = Number((value || "").trim());
+  if (!Number.isInteger(hour) || hour < 0 || hour > 23) {
+    return undefined;
+  }
+  return hour;
+}
+
+function parseTimezone(value: string | undefined): string | undefined {
+  const zone = (value || "").trim();
+  return zone && IANAZone.isValidZone(zone) ? zone : undefined;
+}
+
+/** The zone named by timezone_default, or undefined when it is blank or not a valid IANA zone. */
+export function configuredTimezone(config: Record<string, string>): string | undefined {
+  return parseTimezone(config.timezone_default);
+}
+
+/**
+ * Week boundaries from the Config tab. `timezone` is the zone timestamps are read in; it wins over timezone_default so
+ * week bounds, parsed timestamps and the stored Weeks.Timezone always use the same zone.
+ */
+export function weekStartSettingsFromConfig(config: Record<string, string>, timezone?: string): WeekStartSettings {
   return {
-    startUtcMillis: start.toMillis(),
-    endUtcMillis: start.plus({ days: 6 }).endOf("day").toMillis()
+    weekday: parseWeekday(config.week_start) ?? DEFAULT_WEEK_START.weekday,
+    hour: parseHour(config.week_start_hour) ?? DEFAULT_WEEK_START.hour,
+    timezone: parseTimezone(timezone) ?? configuredTimezone(config) ?? DEFAULT_WEEK_START.timezone
   };
 }
 
-export function toWeekId(weekStartUtcDate: string): string {
-  return DateTime.fromISO(weekStartUtcDate, { zone: "utc" }).toFormat("yyyy-MM-dd");
+export function weekdayName(weekday: number): string {
+  return DateTime.utc(2024, 1, weekday).setLocale("en").toFormat("cccc");
+}
+
+export function validateWeekStartDate(weekStartDate: string, settings: WeekStartSettings): string | null {
+  const parsed = DateTime.fromISO(weekStartDate, { zone: "utc" });
+  if (!parsed.isValid) {
+    return "Invalid week start date.";
+  }
+  if (parsed.weekday !== settings.weekday) {
+    const expected = weekdayName(settings.weekday);
+    return `Week start must be a ${expected}; ${weekStartDate} is a ${weekdayName(parsed.weekday)}.`;
+  }
+  return null;
 }
 
+export function snapToWeekStart(date: string, settings: WeekStartSettings): string {
+  const parsed = DateTime.fromISO(date, { zone: "utc" });
+  if (!parsed.isValid) {
+    return date;
+  }
+  const offset = (parsed.weekday - settings.weekday + 7) % 7;
+  return parsed.minus({ days: offset }).toISODate() || date;
+}
+
+function weekStartInstant(weekStartDate: string, settings: WeekStartSettings): DateTime {
+  // Set the hour on the local calendar day so DST shifts never move the boundary off the configured wall-clock time.
+  return DateTime.fromISO(weekStartDate, { zone: settings.timezone }).startOf("day").set({ hour: settings.hour });
+}
+
+export function defaultWeekStartDate(settings: WeekStartSettings, now = DateTime.utc()): string {
+  const localToday = now.setZone(settings.timezone).toISODate() || "";
+  let candidate = snapToWeekStart(localToday, settings);
+  if (weekStartInstant(candidate, settings) > now) {
+    candidate = DateTime.fromISO(candidate, { zone: "utc" }).minus({ weeks: 1 }).toISODate() || candidate;
+  }
+  return candidate;
+}
+
+export function weekBounds(weekStartDate: string, settings: WeekStartSettings): WeekBounds {
+  const start = weekStartInstant(weekStartDate, settings);
+  return {
+    startUtcMillis: start.toMillis(),
+    endUtcMillis: start.plus({ weeks: 1 }).toMillis() - 1
+  };
+}
+
+export function toWeekId(weekStartDate: string): string {
+  return DateTime.fromISO(weekStartDate, { zone: "utc" }).toFormat("yyyy-MM-dd");
+}
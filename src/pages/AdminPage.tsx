@@ -1,17 +1,29 @@
+import { DateTime } from "luxon";
 import { FormEvent, useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
 import { AppHeader } from "../components/AppHeader";
+import { ConflictDialog } from "../components/ConflictDialog";
 import { StatusBanner } from "../components/StatusBanner";
+import { AUDIT_ACTION_LABELS, auditEntry, summarizeRowChanges } from "../lib/audit";
+import { describeInvalidBossRows, invalidBossRows } from "../lib/compute";
+import { ROLES, hasRole, resolveRole } from "../lib/roles";
+import { formatTierRow, invalidTierRowMessages, parseActivityTierRows, sortTiers } from "../lib/tiers";
 import {
   SheetsClient,
+  appendAuditEntries,
+  loadAuditLog,
   loadDataSheetSetupBundle,
-  replaceTabRows
+  replaceTabsAtRevision,
+  RevisionConflictError
 } from "../lib/sheets";
 import { useAppContext } from "../store/AppContext";
+import type { DataSheetSetupBundle, TabReplacement } from "../lib/sheets";
+import type { AllowlistEntry, AuditAction, AuditEntry, ModifierEffect } from "../types";
 
 type BossRow = {
   boss: string;
   points: string;
+  effectiveFrom: string;
 };
 
 type AliasRow = {
@@ -19,18 +31,83 @@ type AliasRow = {
   canonical: string;
 };
 
+type ModifierRow = {
+  synonym: string;
+  effect: ModifierEffect;
+  value: string;
+};
+
+type TierRow = {
+  name: string;
+  minPoints: string;
+  color: string;
+};
+
 type ConfigRow = {
   key: string;
   value: string;
 };
 
+type AdminState = {
+  allowlist: AllowlistEntry[];
+  bosses: BossRow[];
+  bossAliases: AliasRow[];
+  nameAliases: AliasRow[];
+  modifiers: ModifierRow[];
+  tiers: TierRow[];
+  configRows: ConfigRow[];
+};
+
+type AdminConflict = {
+  error: RevisionConflictError;
+  remote: AdminState;
+  changedRemotely: string[];
+  editedLocally: string[];
+};
+
+const AUDIT_PAGE_SIZE = 200;
+
 type AliasGroup = {
   canonical: string;
   entries: Array<{ index: number; row: AliasRow }>;
 };
 
+type BossGroup = {
+  boss: string;
+  entries: Array<{ index: number; row: BossRow }>;
+};
+
 function sortBossRows(rows: BossRow[]): BossRow[] {
-  return [...rows].sort((a, b) => a.boss.localeCompare(b.boss));
+  return [...rows].sort((a, b) => a.boss.localeCompare(b.boss) || a.effectiveFrom.localeCompare(b.effectiveFrom));
+}
+
+function groupBosses(rows: BossRow[]): BossGroup[] {
+  const groups = new Map<string, Array<{ index: number; row: BossRow }>>();
+  rows.forEach((row, index) => {
+    const key = row.boss || "(Unnamed)";
+    if (!groups.has(key)) {
+      groups.set(key, []);
+    }
+    groups.get(key)!.push({ index, row });
+  });
+  return Array.from(groups.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([boss, entries]) => ({
+      boss,
+      entries: [...entries].sort((x, y) => x.row.effectiveFrom.localeCompare(y.row.effectiveFrom))
+    }));
+}
+
+function currentBossPoints(group: BossGroup): string {
+  const today = DateTime.now().toISODate() || "";
+  let points = group.entries[0]?.row.points || "0";
+  for (const { row } of group.entries) {
+    if (row.effectiveFrom && row.effectiveFrom > today) {
+      break;
+    }
+    points = row.points;
+  }
+  return points;
 }
 
 function sortAliasRows(rows: AliasRow[]): AliasRow[] {
@@ -39,10 +116,121 @@ function sortAliasRows(rows: AliasRow[]): AliasRow[] {
   );
 }
 
+function sortModifierRows(rows: ModifierRow[]): ModifierRow[] {
+  return [...rows].sort((a, b) => a.synonym.localeCompare(b.synonym));
+}
+
+function toTierRows(tiers: DataSheetSetupBundle["activityTiers"]): TierRow[] {
+  return sortTiers(tiers).map((tier) => {
+    const [name, minPoints, color] = formatTierRow(tier);
+    return { name, minPoints, color };
+  });
+}
+
+function sortAllowlistRows(rows: AllowlistEntry[]): AllowlistEntry[] {
+  return [...rows].sort((a, b) => a.email.localeCompare(b.email));
+}
+
+function normalizedAllowlist(rows: AllowlistEntry[]): AllowlistEntry[] {
+  return rows
+    .filter((row) => row.email.trim())
+    .map((row) => ({ email: row.email.trim().toLowerCase(), role: row.role }));
+}
+
 function sortConfigRows(rows: ConfigRow[]): ConfigRow[] {
   return [...rows].sort((a, b) => a.key.localeCompare(b.key));
 }
 
+function adminStateFromBundle(loaded: DataSheetSetupBundle): AdminState {
+  return {
+    allowlist: sortAllowlistRows(loaded.allowlist),
+    bosses: sortBossRows(
+      loaded.bosses.map((row) => ({ boss: row.boss, points: String(row.points), effectiveFrom: row.effectiveFrom }))
+    ),
+    bossAliases: sortAliasRows(loaded.bossAliases),
+    nameAliases: sortAliasRows(loaded.nameAliases),
+    modifiers: sortModifierRows(
+      loaded.modifiers.map((row) => ({ synonym: row.synonym, effect: row.effect, value: String(row.value) }))
+    ),
+    tiers: toTierRows(loaded.activityTiers),
+    configRows: sortConfigRows(Object.entries(loaded.config).map(([key, value]) => ({ key, value })))
+  };
+}
+
+function toAdminTabs(state: AdminState): TabReplacement[] {
+  return [
+    {
+      tabName: "Allowlist",
+      headers: ["Email", "Role"],
+      rows: normalizedAllowlist(state.allowlist).map((row) => [row.email, row.role])
+    },
+    {
+      tabName: "Bosses",
+      headers: ["Boss", "Points", "EffectiveFrom"],
+      rows: state.bosses
+        .filter((row) => row.boss.trim())
+        .map((row) => [row.boss.trim(), row.points || "0", row.effectiveFrom.trim()])
+    },
+    {
+      tabName: "BossAliases",
+      headers: ["Alias", "Boss"],
+      rows: state.bossAliases
+        .filter((row) => row.alias.trim() && row.canonical.trim())
+        .map((row) => [row.alias.trim(), row.canonical.trim()])
+    },
+    {
+      tabName: "NameAliases",
+      headers: ["Alias", "Name"],
+      rows: state.nameAliases
+        .filter((row) => row.alias.trim() && row.canonical.trim())
+        .map((row) => [row.alias.trim(), row.canonical.trim()])
+    },
+    {
+      tabName: "Modifiers",
+      headers: ["Synonym", "Effect", "Value"],
+      rows: state.modifiers
+        .filter((row) => row.synonym.trim() && Number.isFinite(Number(row.value)))
+        .map((row) => [row.synonym.trim().toLowerCase(), row.effect, row.value.trim() || "0"])
+    },
+    {
+      tabName: "ActivityTiers",
+      headers: ["Tier", "MinPoints", "Color"],
+      rows: sortTiers(parseActivityTierRows(state.tiers.map((row) => [row.name, row.minPoints, row.color]))).map(
+        formatTierRow
+      )
+    },
+    {
+      tabName: "Config",
+      headers: ["Key", "Value"],
+      rows: state.configRows.filter((row) => row.key.trim()).map((row) => [row.key.trim(), row.value.trim()])
+    }
+  ];
+}
+
+function tabFingerprint(rows: string[][]): string {
+  return JSON.stringify([...rows].sort((a, b) => a.join("\u0000").localeCompare(b.join("\u0000"))));
+}
+
+function changedTabs(tabs: TabReplacement[], baseline: Map<string, string[][]>): string[] {
+  return tabs
+    .filter((tab) => tabFingerprint(baseline.get(tab.tabName) || []) !== tabFingerprint(tab.rows))
+    .map((tab) => tab.tabName);
+}
+
+function filterAuditEntries(entries: AuditEntry[], action: AuditAction | "", query: string): AuditEntry[] {
+  const normalizedQuery = query.trim().toLowerCase();
+  return entries
+    .filter((entry) => !action || entry.action === action)
+    .filter(
+      (entry) =>
+        !normalizedQuery ||
+        [entry.email, entry.target, entry.before, entry.after].some((value) =>
+          value.toLowerCase().includes(normalizedQuery)
+        )
+    )
+    .sort((a, b) => b.timestampUtc.localeCompare(a.timestampUtc));
+}
+
 function groupAliases(rows: AliasRow[]): AliasGroup[] {
   const groups = new Map<string, Array<{ index: number; row: AliasRow }>>();
   rows.forEach((row, index) => {
@@ -61,21 +249,34 @@ function groupAliases(rows: AliasRow[]): AliasGroup[] {
 }
 
 export function AdminPage(): JSX.Element {
-  const { auth, setup } = useAppContext();
-  const [allowlist, setAllowlist] = useState<string[]>([]);
+  const { auth, setup, role, setAccess } = useAppContext();
+  const [allowlist, setAllowlist] = useState<AllowlistEntry[]>([]);
   const [bosses, setBosses] = useState<BossRow[]>([]);
   const [bossAliases, setBossAliases] = useState<AliasRow[]>([]);
   const [nameAliases, setNameAliases] = useState<AliasRow[]>([]);
+  const [modifiers, setModifiers] = useState<ModifierRow[]>([]);
+  const [tiers, setTiers] = useState<TierRow[]>([]);
   const [configRows, setConfigRows] = useState<ConfigRow[]>([]);
   const [newBossAlias, setNewBossAlias] = useState<AliasRow>({ alias: "", canonical: "" });
   const [newNameAlias, setNewNameAlias] = useState<AliasRow>({ alias: "", canonical: "" });
   const [status, setStatus] = useState("");
   const [error, setError] = useState("");
   const [busy, setBusy] = useState(false);
+  const [conflict, setConflict] = useState<AdminConflict | null>(null);
+  const [auditEntries, setAuditEntries] = useState<AuditEntry[] | null>(null);
+  const [auditAction, setAuditAction] = useState<AuditAction | "">("");
+  const [auditQuery, setAuditQuery] = useState("");
   const ensuredSheetsRef = useRef<Set<string>>(new Set());
+  const loadedRevisionRef = useRef(0);
+  const loadedTabsRef = useRef<Map<string, string[][]>>(new Map());
 
+  const groupedBosses = useMemo(() => groupBosses(bosses), [bosses]);
   const groupedBossAliases = useMemo(() => groupAliases(bossAliases), [bossAliases]);
   const groupedNameAliases = useMemo(() => groupAliases(nameAliases), [nameAliases]);
+  const filteredAudit = useMemo(
+    () => filterAuditEntries(auditEntries || [], auditAction, auditQuery),
+    [auditEntries, auditAction, auditQuery]
+  );
 
   async function loadAdminData(): Promise<void> {
     if (!auth || !setup?.dataSpreadsheetId) {
@@ -83,26 +284,67 @@ export function AdminPage(): JSX.Element {
     }
     const client = new SheetsClient(auth.accessToken);
     if (!ensuredSheetsRef.current.has(setup.dataSpreadsheetId)) {
-      await client.ensureSchema(setup.dataSpreadsheetId);
+      const recovery = await client.ensureSchema(setup.dataSpreadsheetId);
       ensuredSheetsRef.current.add(setup.dataSpreadsheetId);
+      if (recovery) {
+        setStatus(recovery);
+      }
     }
     const loaded = await loadDataSheetSetupBundle(client, setup.dataSpreadsheetId);
-    setAllowlist([...loaded.allowlist].sort((a, b) => a.localeCompare(b)));
-    setBosses(sortBossRows(loaded.bosses.map((row) => ({ boss: row.boss, points: String(row.points) }))));
-    setBossAliases(sortAliasRows(loaded.bossAliases));
-    setNameAliases(sortAliasRows(loaded.nameAliases));
-    setConfigRows(sortConfigRows(Object.entries(loaded.config).map(([key, value]) => ({ key, value }))));
+    const loadedRole = resolveRole(loaded.allowlist, auth.email);
+    setAccess(setup.dataSpreadsheetId, loadedRole);
+    if (!hasRole(loadedRole, "admin")) {
+      throw new Error("Admin settings require the admin role in this data sheet's Allowlist.");
+    }
+    applyAdminState(adminStateFromBundle(loaded), loaded.revision.revision);
+    const invalidBosses = invalidBossRows(loaded.bosses);
+    if (invalidBosses.length > 0) {
+      setError(`${describeInvalidBossRows(invalidBosses)} Pick a new date or clear it before saving.`);
+    }
+  }
+
+  /** Applies loaded rows to the editor and records them as the baseline for conflict detection. */
+  function applyAdminState(state: AdminState, revision: number, onlyTabs?: Set<string>): void {
+    const include = (tabName: string) => !onlyTabs || onlyTabs.has(tabName);
+    if (include("Allowlist")) {
+      setAllowlist(state.allowlist);
+    }
+    if (include("Bosses")) {
+      setBosses(state.bosses);
+    }
+    if (include("BossAliases")) {
+      setBossAliases(state.bossAliases);
+    }
+    if (include("NameAliases")) {
+      setNameAliases(state.nameAliases);
+    }
+    if (include("Modifiers")) {
+      setModifiers(state.modifiers);
+    }
+    if (include("ActivityTiers")) {
+      setTiers(state.tiers);
+    }
+    if (include("Config")) {
+      setConfigRows(state.configRows);
+    }
+    for (const tab of toAdminTabs(state)) {
+      loadedTabsRef.current.set(tab.tabName, tab.rows);
+    }
+    loadedRevisionRef.current = revision;
   }
 
   useEffect(() => {
     loadAdminData().catch((err) => {
       setError(err instanceof Error ? err.message : "Failed to load admin data.");
     });
+    // Keyed on the account rather than the token so a silent token renewal does not discard unsaved edits.
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [setup?.dataSpreadsheetId, auth?.accessToken]);
+  }, [setup?.dataSpreadsheetId, auth?.email]);
 
-  async function saveAll(event: FormEvent): Promise<void> {
-    event.preventDefault();
+  async function saveTabs(
+    expectedRevision: number | null = loadedRevisionRef.current,
+    onlyTabs?: Set<string>
+  ): Promise<void> {
     if (!auth || !setup?.dataSpreadsheetId) {
       setError("Missing auth or Data Spreadsheet ID.");
       return;
@@ -110,57 +352,130 @@ export function AdminPage(): JSX.Element {
     setBusy(true);
     setError("");
     setStatus("");
+    const client = new SheetsClient(auth.accessToken);
+    const localState: AdminState = { allowlist, bosses, bossAliases, nameAliases, modifiers, tiers, configRows };
+    const tabs = toAdminTabs(localState).filter((tab) => !onlyTabs || onlyTabs.has(tab.tabName));
+    const edited = changedTabs(tabs, loadedTabsRef.current);
+    if (
+      tabs.some((tab) => tab.tabName === "Allowlist") &&
+      !hasRole(resolveRole(normalizedAllowlist(allowlist), auth.email), "admin")
+    ) {
+      setError(`Saving this Allowlist would remove admin access for ${auth.email}. Keep yourself as an admin.`);
+      setBusy(false);
+      return;
+    }
+    const tierErrors = tabs.some((tab) => tab.tabName === "ActivityTiers")
+      ? invalidTierRowMessages(tiers.map((row) => [row.name, row.minPoints, row.color]))
+      : [];
+    if (tierErrors.length > 0) {
+      setError(tierErrors.join(" "));
+      setBusy(false);
+      return;
+    }
+    const invalidBosses = tabs.some((tab) => tab.tabName === "Bosses")
+      ? invalidBossRows(bosses.filter((row) => row.boss.trim()))
+      : [];
+    if (invalidBosses.length > 0) {
+      setError(describeInvalidBossRows(invalidBosses));
+      setBusy(false);
+      return;
+    }
     try {
-      const client = new SheetsClient(auth.accessToken);
-      await Promise.all([
-        replaceTabRows(
-          client,
-          setup.dataSpreadsheetId,
-          "Allowlist",
-          ["Email"],
-          allowlist.filter(Boolean).map((email) => [email.trim().toLowerCase()])
-        ),
-        replaceTabRows(
-          client,
-          setup.dataSpreadsheetId,
-          "Bosses",
-          ["Boss", "Points"],
-          bosses.filter((row) => row.boss.trim()).map((row) => [row.boss.trim(), row.points || "0"])
-        ),
-        replaceTabRows(
-          client,
-          setup.dataSpreadsheetId,
-          "BossAliases",
-          ["Alias", "Boss"],
-          bossAliases
-            .filter((row) => row.alias.trim() && row.canonical.trim())
-            .map((row) => [row.alias.trim(), row.canonical.trim()])
-        ),
-        replaceTabRows(
-          client,
-          setup.dataSpreadsheetId,
-          "NameAliases",
-          ["Alias", "Name"],
-          nameAliases
-            .filter((row) => row.alias.trim() && row.canonical.trim())
-            .map((row) => [row.alias.trim(), row.canonical.trim()])
-        ),
-        replaceTabRows(
-          client,
-          setup.dataSpreadsheetId,
-          "Config",
-          ["Key", "Value"],
-          configRows.filter((row) => row.key.trim()).map((row) => [row.key.trim(), row.value.trim()])
-        )
-      ]);
+      const next = await replaceTabsAtRevision(client, setup.dataSpreadsheetId, expectedRevision, tabs, {
+        updatedBy: auth.email,
+        updatedUtc: DateTime.utc().toISO() || "",
+        note: `Admin settings saved (${tabs.map((tab) => tab.tabName).join(", ")})`,
+        scope: "admin"
+      });
+      loadedRevisionRef.current = next.revision;
+      const entries = tabs
+        .filter((tab) => edited.includes(tab.tabName))
+        .map((tab) => {
+          const { before, after } = summarizeRowChanges(loadedTabsRef.current.get(tab.tabName) || [], tab.rows);
+          return auditEntry(auth.email.toLowerCase(), "admin_save", tab.tabName, before, after);
+        });
+      for (const tab of tabs) {
+        loadedTabsRef.current.set(tab.tabName, tab.rows);
+      }
       setStatus("Admin settings saved.");
+      // The tabs are committed already; a failed audit append is reported without turning the save into a failure.
+      try {
+        await appendAuditEntries(client, setup.dataSpreadsheetId, entries);
+      } catch (auditErr) {
+        const reason = auditErr instanceof Error ? auditErr.message : "unknown error";
+        setError(`Admin settings were saved, but the audit log entry could not be written (${reason}).`);
+      }
     } catch (err) {
+      if (err instanceof RevisionConflictError) {
+        try {
+          const remote = adminStateFromBundle(await loadDataSheetSetupBundle(client, setup.dataSpreadsheetId));
+          const remoteTabs = toAdminTabs(remote);
+          setConflict({
+            error: err,
+            remote,
+            changedRemotely: changedTabs(remoteTabs, loadedTabsRef.current),
+            editedLocally: changedTabs(toAdminTabs(localState), loadedTabsRef.current)
+          });
+        } catch (loadErr) {
+          setError(loadErr instanceof Error ? loadErr.message : "Failed to load remote settings.");
+        }
+        return;
+      }
       setError(err instanceof Error ? err.message : "Failed to save settings.");
     } finally {
       setBusy(false);
     }
   }
 
+  async function loadAudit(): Promise<void> {
+    if (!auth || !setup?.dataSpreadsheetId) {
+      return;
+    }
+    setError("");
+    try {
+      setBusy(true);
+      setAuditEntries(await loadAuditLog(new SheetsClient(auth.accessToken), setup.dataSpreadsheetId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load audit log.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveAll(event: FormEvent): Promise<void> {
+    event.preventDefault();
+    await saveTabs();
+  }
+
+  async function resolveConflict(action: "reload" | "merge" | "force"): Promise<void> {
+    if (!conflict) {
+      return;
+    }
+    const { error: conflictError, remote, changedRemotely, editedLocally } = conflict;
+    setConflict(null);
+    if (action === "force") {
+      await saveTabs(null);
+      return;
+    }
+    if (action === "reload") {
+      applyAdminState(remote, conflictError.remote.revision);
+      setStatus(`Reloaded revision ${conflictError.remote.revision}. Local edits were discarded.`);
+      return;
+    }
+    // Tab-level merge: take every remotely changed tab the user did not touch, then save only the edited tabs.
+    const edited = new Set(editedLocally);
+    applyAdminState(
+      remote,
+      conflictError.remote.revision,
+      new Set(changedRemotely.filter((tabName) => !edited.has(tabName)))
+    );
+    if (edited.size === 0) {
+      setStatus(`Merged remote revision ${conflictError.remote.revision}. Nothing local left to save.`);
+      return;
+    }
+    await saveTabs(conflictError.remote.revision, edited);
+  }
+
   if (!setup?.dataSpreadsheetId) {
     return (
       <main className="page">
@@ -173,59 +488,132 @@ export function AdminPage(): JSX.Element {
     );
   }
 
+  if (!hasRole(role, "admin")) {
+    return (
+      <main className="page">
+        <AppHeader />
+        <StatusBanner status={status} error={error} onClearStatus={() => setStatus("")} />
+        <section className="card">
+          <p>{error ? "Admin settings are only available to admins." : "Checking Allowlist access..."}</p>
+          <Link to="/wizard">Back to Wizard</Link>
+        </section>
+      </main>
+    );
+  }
+
   return (
     <main className="page">
       <AppHeader />
       <StatusBanner status={status} error={error} onClearStatus={() => setStatus("")} />
+      {conflict ? (
+        <ConflictDialog
+          expected={conflict.error.expected}
+          remote={conflict.error.remote}
+          details={[
+            `Changed remotely: ${conflict.changedRemotely.join(", ") || "none of the admin tabs"}.`,
+            `Edited here: ${conflict.editedLocally.join(", ") || "nothing"}.`,
+            ...(conflict.changedRemotely.some((tabName) => conflict.editedLocally.includes(tabName))
+              ? ["Tabs changed on both sides keep your version when merging."]
+              : [])
+          ]}
+          mergeLabel="Merge Tabs"
+          busy={busy}
+          onReload={() => resolveConflict("reload")}
+          onMerge={() => resolveConflict("merge")}
+          onForce={() => resolveConflict("force")}
+          onCancel={() => setConflict(null)}
+        />
+      ) : null}
       <section className="card">
         <h2>Admin Settings</h2>
         <p>Data Sheet: {setup.dataSpreadsheetId}</p>
         <form onSubmit={saveAll} className="admin-form">
           <details className="admin-section" open>
             <summary>Boss Points</summary>
-            <div className="admin-table-head">
-              <span>Boss</span>
-              <span>Points</span>
-              <span />
-            </div>
-            {bosses.map((row, idx) => (
-              <div className="admin-table-row" key={`boss-${idx}`}>
-                <input
-                  value={row.boss}
-                  onChange={(event) =>
-                    setBosses((prev) => {
-                      const next = [...prev];
-                      next[idx] = { ...next[idx], boss: event.target.value };
-                      return sortBossRows(next);
-                    })
-                  }
-                  placeholder="Boss"
-                />
-                <input
-                  type="number"
-                  value={row.points}
-                  onChange={(event) =>
-                    setBosses((prev) => {
-                      const next = [...prev];
-                      next[idx] = { ...next[idx], points: event.target.value };
-                      return sortBossRows(next);
-                    })
-                  }
-                  placeholder="Points"
-                />
+            <p className="hint-inline">
+              Each boss keeps a schedule of point values. A blank Effective From applies from the start; later rows
+              take over from their date so older weeks keep recalculating with the value in force at the time.
+            </p>
+            {groupedBosses.map((group) => (
+              <details className="admin-subsection" key={`boss-schedule-${group.boss}`}>
+                <summary>
+                  {group.boss} ({currentBossPoints(group)} pts now, {group.entries.length}{" "}
+                  {group.entries.length === 1 ? "entry" : "entries"})
+                </summary>
+                <div className="admin-table-head four-col">
+                  <span>Boss</span>
+                  <span>Points</span>
+                  <span>Effective From</span>
+                  <span />
+                </div>
+                {group.entries.map(({ index, row }) => (
+                  <div className="admin-table-row four-col" key={`boss-${group.boss}-${index}`}>
+                    <input
+                      value={row.boss}
+                      onChange={(event) =>
+                        setBosses((prev) => {
+                          const next = [...prev];
+                          next[index] = { ...next[index], boss: event.target.value };
+                          return sortBossRows(next);
+                        })
+                      }
+                      placeholder="Boss"
+                    />
+                    <input
+                      type="number"
+                      value={row.points}
+                      onChange={(event) =>
+                        setBosses((prev) => {
+                          const next = [...prev];
+                          next[index] = { ...next[index], points: event.target.value };
+                          return sortBossRows(next);
+                        })
+                      }
+                      placeholder="Points"
+                    />
+                    <input
+                      type="date"
+                      value={row.effectiveFrom}
+                      onChange={(event) =>
+                        setBosses((prev) => {
+                          const next = [...prev];
+                          next[index] = { ...next[index], effectiveFrom: event.target.value };
+                          return sortBossRows(next);
+                        })
+                      }
+                    />
+                    <button
+                      type="button"
+                      onClick={() =>
+                        setBosses((prev) => sortBossRows(prev.filter((_, candidate) => candidate !== index)))
+                      }
+                    >
+                      Remove
+                    </button>
+                  </div>
+                ))}
                 <button
                   type="button"
                   onClick={() =>
-                    setBosses((prev) => sortBossRows(prev.filter((_, candidate) => candidate !== idx)))
+                    setBosses((prev) =>
+                      sortBossRows([
+                        ...prev,
+                        {
+                          boss: group.boss,
+                          points: group.entries[group.entries.length - 1]?.row.points || "1",
+                          effectiveFrom: DateTime.now().toISODate() || ""
+                        }
+                      ])
+                    )
                   }
                 >
-                  Remove
+                  Change Points for {group.boss}
                 </button>
-              </div>
+              </details>
             ))}
             <button
               type="button"
-              onClick={() => setBosses((prev) => sortBossRows([...prev, { boss: "", points: "1" }]))}
+              onClick={() => setBosses((prev) => sortBossRows([...prev, { boss: "", points: "1", effectiveFrom: "" }]))}
             >
               Add Boss
             </button>
@@ -390,21 +778,178 @@ export function AdminPage(): JSX.Element {
           </details>
 
           <details className="admin-section">
-            <summary>Allowlist Emails</summary>
-            {allowlist.map((email, idx) => (
+            <summary>Boss Modifiers</summary>
+            <div className="admin-table-head four-col">
+              <span>Synonym</span>
+              <span>Effect</span>
+              <span>Value</span>
+              <span />
+            </div>
+            {modifiers.map((row, idx) => (
+              <div className="admin-table-row four-col" key={`modifier-${idx}`}>
+                <input
+                  value={row.synonym}
+                  onChange={(event) =>
+                    setModifiers((prev) => {
+                      const next = [...prev];
+                      next[idx] = { ...next[idx], synonym: event.target.value };
+                      return sortModifierRows(next);
+                    })
+                  }
+                  placeholder="Synonym"
+                />
+                <select
+                  value={row.effect}
+                  onChange={(event) =>
+                    setModifiers((prev) => {
+                      const next = [...prev];
+                      next[idx] = { ...next[idx], effect: event.target.value as ModifierEffect };
+                      return next;
+                    })
+                  }
+                >
+                  <option value="bonus">Additive bonus</option>
+                  <option value="multiplier">Multiplier</option>
+                  <option value="override">Override points</option>
+                </select>
+                <input
+                  type="number"
+                  step="any"
+                  value={row.value}
+                  onChange={(event) =>
+                    setModifiers((prev) => {
+                      const next = [...prev];
+                      next[idx] = { ...next[idx], value: event.target.value };
+                      return next;
+                    })
+                  }
+                  placeholder="Value"
+                />
+                <button
+                  type="button"
+                  onClick={() =>
+                    setModifiers((prev) => sortModifierRows(prev.filter((_, candidate) => candidate !== idx)))
+                  }
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() =>
+                setModifiers((prev) => sortModifierRows([...prev, { synonym: "", effect: "bonus", value: "1" }]))
+              }
+            >
+              Add Modifier
+            </button>
+          </details>
+
+          <details className="admin-section">
+            <summary>Activity Tiers</summary>
+            <p className="hint-inline">
+              Each tier applies from its minimum points upwards, or strictly above it when written as "&gt;4"; leave the
+              lowest tier's minimum blank to catch everything below. Saved weeks pick up renamed or re-banded tiers the
+              next time a week is saved or deleted. While no tiers are listed, activity_low_max and activity_medium_max in
+              Config still decide Low/Medium/High.
+            </p>
+            <div className="admin-table-head four-col">
+              <span>Tier</span>
+              <span>Min Points</span>
+              <span>Color</span>
+              <span />
+            </div>
+            {tiers.map((row, idx) => (
+              <div className="admin-table-row four-col" key={`tier-${idx}`}>
+                <input
+                  value={row.name}
+                  onChange={(event) =>
+                    setTiers((prev) => {
+                      const next = [...prev];
+                      next[idx] = { ...next[idx], name: event.target.value };
+                      return next;
+                    })
+                  }
+                  placeholder="Tier"
+                />
+                <input
+                  value={row.minPoints}
+                  onChange={(event) =>
+                    setTiers((prev) => {
+                      const next = [...prev];
+                      next[idx] = { ...next[idx], minPoints: event.target.value };
+                      return next;
+                    })
+                  }
+                  placeholder="(lowest)"
+                />
+                <input
+                  type="color"
+                  value={row.color || "#9e9e9e"}
+                  onChange={(event) =>
+                    setTiers((prev) => {
+                      const next = [...prev];
+                      next[idx] = { ...next[idx], color: event.target.value };
+                      return next;
+                    })
+                  }
+                />
+                <button
+                  type="button"
+                  onClick={() => setTiers((prev) => prev.filter((_, candidate) => candidate !== idx))}
+                >
+                  Remove
+                </button>
+              </div>
+            ))}
+            <button
+              type="button"
+              onClick={() => setTiers((prev) => [...prev, { name: "", minPoints: "", color: "#9e9e9e" }])}
+            >
+              Add Tier
+            </button>
+          </details>
+
+          <details className="admin-section">
+            <summary>Allowlist</summary>
+            <p className="hint-inline">
+              Viewers browse stored weeks and exports, recorders also run the wizard and save weeks, and admins also
+              edit these settings and delete weeks. An empty Allowlist lets every signed-in account in as admin.
+            </p>
+            <div className="admin-table-head">
+              <span>Email</span>
+              <span>Role</span>
+              <span />
+            </div>
+            {allowlist.map((row, idx) => (
               <div className="admin-table-row" key={`allow-${idx}`}>
                 <input
-                  value={email}
+                  value={row.email}
                   onChange={(event) =>
                     setAllowlist((prev) => {
                       const next = [...prev];
-                      next[idx] = event.target.value;
-                      return [...next].sort((a, b) => a.localeCompare(b));
+                      next[idx] = { ...next[idx], email: event.target.value };
+                      return sortAllowlistRows(next);
                     })
                   }
                   placeholder="user@example.com"
                 />
-                <span />
+                <select
+                  value={row.role}
+                  onChange={(event) =>
+                    setAllowlist((prev) => {
+                      const next = [...prev];
+                      next[idx] = { ...next[idx], role: event.target.value as AllowlistEntry["role"] };
+                      return next;
+                    })
+                  }
+                >
+                  {ROLES.map((candidate) => (
+                    <option key={candidate} value={candidate}>
+                      {candidate}
+                    </option>
+                  ))}
+                </select>
                 <button
                   type="button"
                   onClick={() => setAllowlist((prev) => prev.filter((_, candidate) => candidate !== idx))}
@@ -413,7 +958,7 @@ export function AdminPage(): JSX.Element {
                 </button>
               </div>
             ))}
-            <button type="button" onClick={() => setAllowlist((prev) => [...prev, ""])}>
+            <button type="button" onClick={() => setAllowlist((prev) => [...prev, { email: "", role: "viewer" }])}>
               Add Email
             </button>
           </details>
@@ -472,6 +1017,66 @@ export function AdminPage(): JSX.Element {
           </button>
         </form>
       </section>
+
+      <section className="card">
+        <h2>Audit Log</h2>
+        <div className="actions-row">
+          <select value={auditAction} onChange={(event) => setAuditAction(event.target.value as AuditAction | "")}>
+            <option value="">All actions</option>
+            {Object.entries(AUDIT_ACTION_LABELS).map(([action, label]) => (
+              <option key={action} value={action}>
+                {label}
+              </option>
+            ))}
+          </select>
+          <input
+            value={auditQuery}
+            onChange={(event) => setAuditQuery(event.target.value)}
+            placeholder="Filter by email, target or change..."
+          />
+          <button type="button" onClick={loadAudit} disabled={busy}>
+            {auditEntries ? "Refresh" : "Load Audit Log"}
+          </button>
+        </div>
+        {auditEntries ? (
+          filteredAudit.length === 0 ? (
+            <p>No matching audit entries.</p>
+          ) : (
+            <>
+              <p className="hint">
+                Showing {Math.min(filteredAudit.length, AUDIT_PAGE_SIZE)} of {filteredAudit.length} entries, newest
+                first.
+              </p>
+              <div className="table-wrap">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>When (UTC)</th>
+                      <th>Who</th>
+                      <th>Action</th>
+                      <th>Target</th>
+                      <th>Before</th>
+                      <th>After</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {filteredAudit.slice(0, AUDIT_PAGE_SIZE).map((entry, idx) => (
+                      <tr key={`audit-${idx}`}>
+                        <td>{entry.timestampUtc.replace("T", " ").slice(0, 19)}</td>
+                        <td>{entry.email}</td>
+                        <td>{AUDIT_ACTION_LABELS[entry.action] || entry.action}</td>
+                        <td>{entry.target}</td>
+                        <td>{entry.before}</td>
+                        <td>{entry.after}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )
+        ) : null}
+      </section>
     </main>
   );
 }
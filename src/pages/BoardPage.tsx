@@ -0,0 +1,100 @@
+import { DateTime } from "luxon";
+import { useEffect, useState } from "react";
+import { Link, useSearchParams } from "react-router-dom";
+import { WeekTable } from "../components/WeekTable";
+import { parseBoardSnapshot } from "../lib/board";
+import type { BoardSnapshot } from "../lib/board";
+
+const SNAPSHOT_URL = (import.meta.env.VITE_BOARD_SNAPSHOT_URL as string | undefined) || "board.json";
+
+function formatUtc(value: string): string {
+  const parsed = DateTime.fromISO(value, { zone: "utc" });
+  return parsed.isValid ? parsed.toLocal().toFormat("yyyy-LL-dd HH:mm") : value;
+}
+
+/** Public, sign-in free leaderboard rendered from a published board snapshot rather than the data sheet. */
+export function BoardPage(): JSX.Element {
+  const [searchParams] = useSearchParams();
+  const source = searchParams.get("src") || SNAPSHOT_URL;
+  const [snapshot, setSnapshot] = useState<BoardSnapshot | null>(null);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    let cancelled = false;
+    setError("");
+    fetch(source, { cache: "no-cache" })
+      .then(async (response) => {
+        if (!response.ok) {
+          throw new Error(`The leaderboard has not been published yet (${response.status}).`);
+        }
+        return parseBoardSnapshot(await response.json());
+      })
+      .then((loaded) => {
+        if (!cancelled) {
+          setSnapshot(loaded);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Failed to load the leaderboard.");
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [source]);
+
+  const latestWeek = snapshot?.latestWeek;
+  const weekCount = snapshot?.standings.weekIds.length || 0;
+
+  return (
+    <main className="page">
+      <header className="app-header">
+        <div>
+          <h1>DK Weekly Points</h1>
+        </div>
+        <nav>
+          <Link to="/login">Officer Sign In</Link>
+        </nav>
+      </header>
+      {error ? <p className="error">{error}</p> : null}
+      {!snapshot && !error ? <p>Loading leaderboard...</p> : null}
+      {snapshot ? (
+        <>
+          <p className="hint">Published {formatUtc(snapshot.generatedUtc)}. Read-only view.</p>
+          <section className="card">
+            <h2>{latestWeek ? `Latest Week: ${latestWeek.weekId}` : "Latest Week"}</h2>
+            {latestWeek ? (
+              <WeekTable
+                rows={latestWeek.rows}
+                bossColumns={latestWeek.bossColumns}
+                tiers={snapshot.tiers}
+                streakLabel={snapshot.streakLabel}
+              />
+            ) : (
+              <p>No weeks have been published yet.</p>
+            )}
+          </section>
+          <section className="card">
+            <h2>Standings</h2>
+            <p className="hint">
+              Totals across {weekCount} stored week(s)
+              {weekCount > 0
+                ? ` (${snapshot.standings.weekIds[0]} to ${snapshot.standings.weekIds[weekCount - 1]})`
+                : ""}
+              . Activity level and streak are from each member's most recent week; longest streak is the best across them.
+            </p>
+            <WeekTable
+              rows={snapshot.standings.rows}
+              bossColumns={snapshot.standings.bossColumns}
+              tiers={snapshot.tiers}
+              streakLabel={snapshot.streakLabel}
+              totalLabel={`Points (${weekCount} Weeks)`}
+              emptyLabel="No players with > 0 points yet."
+            />
+          </section>
+        </>
+      ) : null}
+    </main>
+  );
+}
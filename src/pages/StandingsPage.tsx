@@ -0,0 +1,286 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { AppHeader } from "../components/AppHeader";
+import { Sparkline } from "../components/Sparkline";
+import { StatusBanner } from "../components/StatusBanner";
+import { hasRole, resolveRole } from "../lib/roles";
+import { formatPoints } from "../lib/rounding";
+import { SheetsClient, loadDataSheetSetupBundle, loadWeekUserTotalsRaw } from "../lib/sheets";
+import { buildStandingsMatrix, standingsWeekIds } from "../lib/standings";
+import type { StandingsRow } from "../lib/standings";
+import { resolveActivityTiers } from "../lib/tiers";
+import { useAppContext } from "../store/AppContext";
+import type { ActivityTier } from "../types";
+
+const DEFAULT_RANGE_WEEKS = 8;
+
+function describeMovement(row: StandingsRow, rangeWeeks: number): { text: string; className: string } {
+  if (rangeWeeks < 2) {
+    return { text: "-", className: "" };
+  }
+  if (row.previousRank === null) {
+    return { text: "new", className: "rank-new" };
+  }
+  const change = row.previousRank - row.rank;
+  if (change === 0) {
+    return { text: "-", className: "" };
+  }
+  return change > 0 ? { text: `▲${change}`, className: "rank-up" } : { text: `▼${-change}`, className: "rank-down" };
+}
+
+/** Member × week points matrix over a selectable range of stored weeks, read once from WeekUserTotals. */
+export function StandingsPage(): JSX.Element {
+  const { auth, setup, role, setAccess } = useAppContext();
+  const [totalsRaw, setTotalsRaw] = useState<string[][] | null>(null);
+  const [tiers, setTiers] = useState<ActivityTier[]>([]);
+  const [fromWeekId, setFromWeekId] = useState("");
+  const [toWeekId, setToWeekId] = useState("");
+  const [sortKey, setSortKey] = useState("rank");
+  const [sortDirection, setSortDirection] = useState<"asc" | "desc">("asc");
+  const [query, setQuery] = useState("");
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+
+  async function loadStandings(): Promise<void> {
+    if (!auth || !setup?.dataSpreadsheetId) {
+      setError("Missing auth or Data Spreadsheet ID. Complete the setup in the Wizard first.");
+      return;
+    }
+    const client = new SheetsClient(auth.accessToken);
+    const [loaded, totals] = await Promise.all([
+      loadDataSheetSetupBundle(client, setup.dataSpreadsheetId),
+      loadWeekUserTotalsRaw(client, setup.dataSpreadsheetId)
+    ]);
+    const loadedRole = resolveRole(loaded.allowlist, auth.email);
+    setAccess(setup.dataSpreadsheetId, loadedRole);
+    if (!hasRole(loadedRole, "viewer")) {
+      throw new Error(`${auth.email} is not on this data sheet's Allowlist.`);
+    }
+    const weekIds = standingsWeekIds(totals);
+    setTiers(resolveActivityTiers(loaded.activityTiers, loaded.config));
+    setTotalsRaw(totals);
+    setFromWeekId(weekIds[Math.max(0, weekIds.length - DEFAULT_RANGE_WEEKS)] || "");
+    setToWeekId(weekIds[weekIds.length - 1] || "");
+    setStatus(`Loaded ${weekIds.length} stored week(s).`);
+  }
+
+  useEffect(() => {
+    loadStandings().catch((err) => {
+      setError(err instanceof Error ? err.message : "Failed to load standings.");
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [setup?.dataSpreadsheetId, auth?.email]);
+
+  const allWeekIds = useMemo(() => standingsWeekIds(totalsRaw || []), [totalsRaw]);
+  const rangeWeekIds = useMemo(
+    () => allWeekIds.filter((weekId) => weekId >= fromWeekId && weekId <= toWeekId),
+    [allWeekIds, fromWeekId, toWeekId]
+  );
+  const matrix = useMemo(() => buildStandingsMatrix(totalsRaw || [], rangeWeekIds), [totalsRaw, rangeWeekIds]);
+  const tierColors = useMemo(() => new Map(tiers.map((tier) => [tier.name, tier.color])), [tiers]);
+
+  function onSort(nextKey: string): void {
+    if (sortKey === nextKey) {
+      setSortDirection((previous) => (previous === "asc" ? "desc" : "asc"));
+      return;
+    }
+    setSortKey(nextKey);
+    setSortDirection(nextKey === "name" || nextKey === "rank" ? "asc" : "desc");
+  }
+
+  const sortedRows = useMemo(() => {
+    const factor = sortDirection === "asc" ? 1 : -1;
+    const normalizedQuery = query.trim().toLowerCase();
+    const copy = matrix.filter((row) => !normalizedQuery || row.name.toLowerCase().includes(normalizedQuery));
+    copy.sort((a, b) => {
+      let cmp = 0;
+      if (sortKey === "name") {
+        cmp = a.name.localeCompare(b.name);
+      } else if (sortKey === "rank") {
+        cmp = a.rank - b.rank;
+      } else if (sortKey === "movement") {
+        cmp = (a.previousRank ?? a.rank) - a.rank - ((b.previousRank ?? b.rank) - b.rank);
+      } else if (sortKey === "total") {
+        cmp = a.total - b.total;
+      } else if (sortKey === "average") {
+        cmp = a.average - b.average;
+      } else if (sortKey.startsWith("week:")) {
+        const weekId = sortKey.slice(5);
+        const aCell = a.cells[weekId];
+        const bCell = b.cells[weekId];
+        if (!aCell || !bCell) {
+          // Members without a row for the week go last in either direction.
+          if (aCell !== bCell) {
+            return aCell ? -1 : 1;
+          }
+        } else {
+          cmp = aCell.totalPoints - bCell.totalPoints;
+        }
+      }
+      if (cmp === 0) {
+        cmp = a.name.localeCompare(b.name);
+      }
+      return cmp * factor;
+    });
+    return copy;
+  }, [matrix, sortDirection, sortKey, query]);
+
+  function renderSortLabel(label: string, key: string): string {
+    if (sortKey !== key) {
+      return label;
+    }
+    return `${label} ${sortDirection === "asc" ? "▲" : "▼"}`;
+  }
+
+  if (!hasRole(role, "viewer")) {
+    return (
+      <main className="page">
+        <AppHeader />
+        <StatusBanner status={status} error={error} onClearStatus={() => setStatus("")} />
+        <section className="card">
+          <p>{error || "Checking Allowlist access..."}</p>
+          <Link to="/wizard">Back to Wizard</Link>
+        </section>
+      </main>
+    );
+  }
+
+  return (
+    <main className="page">
+      <AppHeader />
+      <StatusBanner status={status} error={error} onClearStatus={() => setStatus("")} />
+      <section className="card">
+        <h3>Standings</h3>
+        {totalsRaw === null ? <p>Loading stored weeks...</p> : null}
+        {totalsRaw !== null && allWeekIds.length === 0 ? <p>No weeks have been saved yet.</p> : null}
+        {allWeekIds.length > 0 ? (
+          <>
+            <div className="actions-row">
+              <label>
+                From
+                <select
+                  value={fromWeekId}
+                  onChange={(event) => {
+                    setFromWeekId(event.target.value);
+                    if (event.target.value > toWeekId) {
+                      setToWeekId(event.target.value);
+                    }
+                  }}
+                >
+                  {allWeekIds.map((weekId) => (
+                    <option key={weekId} value={weekId}>
+                      {weekId}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label>
+                To
+                <select
+                  value={toWeekId}
+                  onChange={(event) => {
+                    setToWeekId(event.target.value);
+                    if (event.target.value < fromWeekId) {
+                      setFromWeekId(event.target.value);
+                    }
+                  }}
+                >
+                  {allWeekIds.map((weekId) => (
+                    <option key={weekId} value={weekId}>
+                      {weekId}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            </div>
+            <p className="hint">
+              {rangeWeekIds.length} week(s) in range. Rank is by total points over the range; movement compares it with
+              the range without its newest week. Averages count only weeks the member has a stored row for.
+            </p>
+            <div className="table-controls">
+              <input placeholder="Filter by name..." value={query} onChange={(event) => setQuery(event.target.value)} />
+            </div>
+            <div className="table-wrap">
+              <table>
+                <thead>
+                  <tr>
+                    <th className="sticky-col">
+                      <button type="button" className="th-sort-btn" onClick={() => onSort("name")}>
+                        {renderSortLabel("Name", "name")}
+                      </button>
+                    </th>
+                    <th>
+                      <button type="button" className="th-sort-btn" onClick={() => onSort("rank")}>
+                        {renderSortLabel("Rank", "rank")}
+                      </button>
+                    </th>
+                    <th>
+                      <button type="button" className="th-sort-btn" onClick={() => onSort("movement")}>
+                        {renderSortLabel("Move", "movement")}
+                      </button>
+                    </th>
+                    <th>
+                      <button type="button" className="th-sort-btn" onClick={() => onSort("total")}>
+                        {renderSortLabel("Total", "total")}
+                      </button>
+                    </th>
+                    <th>
+                      <button type="button" className="th-sort-btn" onClick={() => onSort("average")}>
+                        {renderSortLabel("Weekly Avg", "average")}
+                      </button>
+                    </th>
+                    <th>Trend</th>
+                    {rangeWeekIds.map((weekId) => (
+                      <th key={weekId}>
+                        <button type="button" className="th-sort-btn" onClick={() => onSort(`week:${weekId}`)}>
+                          {renderSortLabel(weekId, `week:${weekId}`)}
+                        </button>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sortedRows.length === 0 ? (
+                    <tr>
+                      <td colSpan={6 + rangeWeekIds.length}>No members match.</td>
+                    </tr>
+                  ) : (
+                    sortedRows.map((row) => {
+                      const movement = describeMovement(row, rangeWeekIds.length);
+                      return (
+                        <tr key={row.name}>
+                          <td className="sticky-col">{row.name}</td>
+                          <td>{row.rank}</td>
+                          <td className={movement.className}>{movement.text}</td>
+                          <td>{formatPoints(row.total)}</td>
+                          <td>{formatPoints(Math.round(row.average * 10) / 10)}</td>
+                          <td>
+                            <Sparkline values={rangeWeekIds.map((weekId) => row.cells[weekId]?.totalPoints ?? null)} />
+                          </td>
+                          {rangeWeekIds.map((weekId) => {
+                            const cell = row.cells[weekId];
+                            const color = cell ? tierColors.get(cell.activityLevel) : undefined;
+                            return (
+                              <td
+                                key={weekId}
+                                className={cell ? "tier-cell" : "muted-cell"}
+                                style={color ? { borderLeftColor: color } : undefined}
+                                title={cell?.activityLevel}
+                              >
+                                {cell ? formatPoints(cell.totalPoints) : "-"}
+                              </td>
+                            );
+                          })}
+                        </tr>
+                      );
+                    })
+                  )}
+                </tbody>
+              </table>
+            </div>
+          </>
+        ) : null}
+      </section>
+    </main>
+  );
+}
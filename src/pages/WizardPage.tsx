@@ -2,22 +2,88 @@ import { DateTime } from "luxon";
 import { ChangeEvent, useEffect, useMemo, useRef, useState } from "react";
 import { Link } from "react-router-dom";
 import { AppHeader } from "../components/AppHeader";
+import { ConflictDialog } from "../components/ConflictDialog";
+import { KillTimeline } from "../components/KillTimeline";
 import { LineResolver } from "../components/LineResolver";
 import { StatusBanner } from "../components/StatusBanner";
 import { WeekTable } from "../components/WeekTable";
-import { computeWeeklySummary, recomputeStreaks } from "../lib/compute";
-import { exportCorrectedFile, exportFullCsv, exportMinimalCsv, exportMinimalTxt } from "../lib/export";
+import { auditEntry, summarizeWeekTotals } from "../lib/audit";
+import {
+  balanceSettingsFromConfig,
+  parseBalanceRows,
+  parseSpendingRows,
+  rebuildBalances,
+  toBalanceRow
+} from "../lib/balances";
+import { buildBoardSnapshot, storedWeekRows } from "../lib/board";
+import {
+  buildBossPointSchedule,
+  buildKillTimeline,
+  buildWeekRangeText,
+  computeLast3WeekTotals,
+  computeWeeklySummary,
+  describeInvalidBossRows,
+  invalidBossRows,
+  recomputeStreaks,
+  streakLabel,
+  streakSettingsFromConfig
+} from "../lib/compute";
+import { detectChatFormat } from "../lib/detect";
+import {
+  exportBoardSnapshot,
+  exportCorrectedFile,
+  exportFullCsv,
+  exportMinimalCsv,
+  exportMinimalTxt
+} from "../lib/export";
 import { createParserLookup, isTimestampLineStart, parseLine } from "../lib/parser";
+import { describePurge, historyRetentionFromConfig, selectPurgedWeekIds } from "../lib/retention";
+import { assertRole, hasRole, resolveRole } from "../lib/roles";
+import { formatPoints, roundingSettingsFromConfig } from "../lib/rounding";
+import { resolveActivityTiers } from "../lib/tiers";
 import {
   SheetsClient,
+  appendAuditEntries,
   appendRows,
+  archiveWeekRows,
+  beginWeekWrite,
+  commitWeekWritePatch,
+  countArchiveRows,
+  formatModifierRow,
   loadSetupBundle,
+  loadWeekAdjustments,
   loadWeekStorageBundle,
-  replaceTabRows
+  nextRevision,
+  RevisionConflictError,
+  weekAdjustmentsFromRows
 } from "../lib/sheets";
-import { getBrowserTimezone, toWeekId, weekBoundsFromUtcSunday } from "../lib/week";
+import {
+  configuredTimezone,
+  DEFAULT_WEEK_START,
+  defaultWeekStartDate,
+  getBrowserTimezone,
+  snapToWeekStart,
+  toWeekId,
+  validateWeekStartDate,
+  weekBounds,
+  weekStartSettingsFromConfig,
+  weekdayName
+} from "../lib/week";
 import { useAppContext } from "../store/AppContext";
-import type { BossConfig, ParsedLine, WeekSummaryRow } from "../types";
+import type {
+  ActivityTier,
+  AuditAction,
+  BossConfig,
+  ModifierConfig,
+  ModifierEffect,
+  ParsedLine,
+  Role,
+  StoredWeek,
+  WeekAdjustment,
+  WeekStartSettings,
+  WeekSummaryRow
+} from "../types";
+import type { FormatDetection } from "../lib/detect";
 import type { SetupBundle } from "../lib/sheets";
 
 type HistoricalTotal = {
@@ -26,32 +92,188 @@ type HistoricalTotal = {
   totalPoints: number;
   activityLevel: string;
   streak: number;
+  longestStreak: number;
+};
+
+type WeekSaveOptions = {
+  confirmOverwrite?: boolean;
+  expectedRevision?: number | null;
+  meta?: Pick<StoredWeek, "sourceFileName" | "notes">;
+  // A recalculation keeps the stored week's own zone; its bounds and Timezone column come from these settings.
+  weekSettings?: WeekStartSettings;
+  auditAction?: Extract<AuditAction, "save_week" | "recalculate_week">;
 };
 
-type Last3Input = {
+type PendingConflict = {
+  error: RevisionConflictError;
   weekId: string;
+  retry: (expectedRevision: number | null) => Promise<void>;
+};
+
+// The accepted lines behind the chart on screen; stored weeks viewed from the sheet have none, so no drill-down.
+type TimelineSource = {
+  lines: ParsedLine[];
+  timezone: string;
+};
+
+// The zone and week start a setup load settled on; the caller's render still holds the values from before the load.
+type WeekSelection = {
+  weekStartSettings: WeekStartSettings;
+  weekStartUtcDate: string;
+};
+
+type LoadedSetup = SetupBundle & WeekSelection;
+
+type RecalcDiffRow = {
   name: string;
-  totalPoints: number;
+  before: number;
+  after: number;
+};
+
+type RecalcPreview = {
+  week: StoredWeek;
+  summary: WeekSummaryRow[];
+  acceptedLines: ParsedLine[];
+  adjustments: WeekAdjustment[];
+  diff: RecalcDiffRow[];
+  weekSettings: WeekStartSettings;
+};
+
+type AdjustmentDraft = {
+  name: string;
+  points: string;
+  reason: string;
 };
 
-function computeLast3WeekTotals(
-  allRows: Last3Input[],
-  weeksAscending: string[],
-  targetWeekId: string
-): Map<string, number> {
-  const targetIndex = weeksAscending.indexOf(targetWeekId);
-  if (targetIndex === -1) {
-    return new Map<string, number>();
+function toAdjustmentDraft(adjustment: WeekAdjustment): AdjustmentDraft {
+  return { name: adjustment.name, points: String(adjustment.points), reason: adjustment.reason };
+}
+
+/** Checks drafted adjustments against the canonical users; blank rows are ignored rather than rejected. */
+function validateAdjustments(
+  drafts: AdjustmentDraft[],
+  users: string[]
+): { adjustments: WeekAdjustment[]; errors: string[] } {
+  const known = new Set(users);
+  const adjustments: WeekAdjustment[] = [];
+  const errors: string[] = [];
+  drafts.forEach((draft, index) => {
+    const name = draft.name.trim();
+    if (!name && !draft.points.trim() && !draft.reason.trim()) {
+      return;
+    }
+    const points = Number(draft.points);
+    if (!known.has(name)) {
+      errors.push(`Adjustment ${index + 1}: "${name}" is not a canonical user.`);
+    } else if (!draft.points.trim() || !Number.isFinite(points) || points === 0) {
+      errors.push(`Adjustment ${index + 1}: points must be a non-zero number.`);
+    } else if (!draft.reason.trim()) {
+      errors.push(`Adjustment ${index + 1}: give a reason.`);
+    } else {
+      adjustments.push({ name, points, reason: draft.reason.trim() });
+    }
+  });
+  return { adjustments, errors };
+}
+
+/** Week ids whose Balances rows are rewritten when the ledger is rebuilt from `fromWeekId`. */
+function weekIdsFrom(weeks: StoredWeek[], fromWeekId: string): string[] {
+  return weeks.map((week) => week.weekId).filter((weekId) => weekId >= fromWeekId);
+}
+
+function toAdjustmentRow(weekId: string, adjustment: WeekAdjustment): string[] {
+  return [weekId, adjustment.name, String(adjustment.points), adjustment.reason];
+}
+
+type IndexedTotal = {
+  row: string[];
+  index: number;
+};
+
+function indexedTotals(totalsRaw: string[][]): IndexedTotal[] {
+  return totalsRaw
+    .map((row, index) => ({ row, index }))
+    .filter(({ row }) => row[0] && row[1] && row[2] && row[3]);
+}
+
+function toHistoricalTotal(row: string[]): HistoricalTotal {
+  return {
+    weekId: row[0],
+    name: row[1],
+    totalPoints: Number(row[2]),
+    activityLevel: row[3],
+    streak: Number(row[4] || 1),
+    longestStreak: Number(row[5] || row[4] || 1)
+  };
+}
+
+function toTotalsRow(row: HistoricalTotal): string[] {
+  return [
+    row.weekId,
+    row.name,
+    String(row.totalPoints),
+    row.activityLevel,
+    String(row.streak),
+    String(row.longestStreak)
+  ];
+}
+
+function toWeekRow(row: StoredWeek): string[] {
+  return [row.weekId, row.startUtc, row.endUtc, row.timezone, row.sourceFileName, row.createdUtc, row.notes];
+}
+
+// Saving or deleting a week can shift streaks in the weeks after it, and a tier or streak mode edit can relabel older
+// weeks; only rows whose stored values moved are rewritten.
+function streakUpdates(
+  kept: IndexedTotal[],
+  historical: HistoricalTotal[]
+): Array<{ index: number; values: string[] }> {
+  return kept.flatMap((entry, position) => {
+    const values = toTotalsRow(historical[position]);
+    return values.every((value, column) => value === (entry.row[column] || ""))
+      ? []
+      : [{ index: entry.index, values }];
+  });
+}
+
+function purgeSummary(purgedCount: number, archived: boolean): string {
+  if (purgedCount === 0) {
+    return "";
   }
-  const includedWeeks = new Set(weeksAscending.slice(Math.max(0, targetIndex - 2), targetIndex + 1));
-  const totalsByName = new Map<string, number>();
-  for (const row of allRows) {
-    if (!includedWeeks.has(row.weekId)) {
-      continue;
+  return archived ? ` Archived ${purgedCount} old week(s).` : ` Purged ${purgedCount} old week(s).`;
+}
+
+function diffWeekTotals(before: Map<string, number>, after: WeekSummaryRow[]): RecalcDiffRow[] {
+  const afterByName = new Map(after.map((row) => [row.name, row.totalPoints]));
+  const names = new Set([...before.keys(), ...afterByName.keys()]);
+  const diff: RecalcDiffRow[] = [];
+  for (const name of names) {
+    const beforePoints = before.get(name) || 0;
+    const afterPoints = afterByName.get(name) || 0;
+    if (beforePoints !== afterPoints) {
+      diff.push({ name, before: beforePoints, after: afterPoints });
     }
-    totalsByName.set(row.name, (totalsByName.get(row.name) || 0) + row.totalPoints);
   }
-  return totalsByName;
+  return diff.sort(
+    (a, b) => Math.abs(b.after - b.before) - Math.abs(a.after - a.before) || a.name.localeCompare(b.name)
+  );
+}
+
+function toWeekEventRow(weekId: string, line: ParsedLine): string[] {
+  return [
+    weekId,
+    String(line.lineNumber),
+    line.timestampUtcMillis === undefined
+      ? ""
+      : DateTime.fromMillis(line.timestampUtcMillis, { zone: "utc" }).toISO() || "",
+    line.author || "",
+    line.bossCanonical || "",
+    String(line.pointsBonus),
+    String(line.pointsMultiplier),
+    line.pointsOverride === undefined ? "" : String(line.pointsOverride),
+    line.addNames.join(", "),
+    line.subtractNames.join(", ")
+  ];
 }
 
 function makeTimezoneOptions(): string[] {
@@ -64,18 +286,21 @@ function makeTimezoneOptions(): string[] {
 }
 
 export function WizardPage(): JSX.Element {
-  const { setup, setSetup, auth } = useAppContext();
+  const { setup, setSetup, auth, role, setAccess } = useAppContext();
   const accessToken = auth?.accessToken || "";
   const authEmail = auth?.email?.toLowerCase() || "";
   const [weekStartUtcDate, setWeekStartUtcDate] = useState(
-    setup?.weekStartUtcDate || DateTime.utc().startOf("week").minus({ days: 1 }).toISODate() || ""
+    setup?.weekStartUtcDate || defaultWeekStartDate(DEFAULT_WEEK_START)
   );
   const [timezone, setTimezone] = useState(setup?.timezone || getBrowserTimezone());
+  // Until a zone is picked (or restored from a saved setup), the data sheet's timezone_default replaces the browser's.
+  const timezoneChosenRef = useRef(Boolean(setup?.timezone));
   const [usersSpreadsheetId, setUsersSpreadsheetId] = useState(setup?.usersSpreadsheetId || "");
   const [usersRange, setUsersRange] = useState(setup?.usersRange || "A:A");
   const [dataSpreadsheetId, setDataSpreadsheetId] = useState(setup?.dataSpreadsheetId || "");
   const [fileName, setFileName] = useState("");
   const [rawLines, setRawLines] = useState<string[]>([]);
+  const [formatDetection, setFormatDetection] = useState<FormatDetection | null>(null);
   const [parsedLines, setParsedLines] = useState<ParsedLine[]>([]);
   const [parseVersion, setParseVersion] = useState(0);
   const [hasParsed, setHasParsed] = useState(false);
@@ -85,15 +310,26 @@ export function WizardPage(): JSX.Element {
   const [bosses, setBosses] = useState<BossConfig[]>([]);
   const [bossAliases, setBossAliases] = useState<Array<{ alias: string; canonical: string }>>([]);
   const [nameAliases, setNameAliases] = useState<Array<{ alias: string; canonical: string }>>([]);
+  const [modifiers, setModifiers] = useState<ModifierConfig[]>([]);
+  const [activityTiers, setActivityTiers] = useState<ActivityTier[]>([]);
   const [config, setConfig] = useState<Record<string, string>>({});
   const [status, setStatus] = useState("");
   const [error, setError] = useState("");
   const [busy, setBusy] = useState(false);
   const [resultRows, setResultRows] = useState<WeekSummaryRow[]>([]);
+  const [timelineSource, setTimelineSource] = useState<TimelineSource | null>(null);
+  const [timelineMember, setTimelineMember] = useState("");
   const [bossColumns, setBossColumns] = useState<string[]>([]);
   const [storedWeeks, setStoredWeeks] = useState<string[]>([]);
   const [selectedStoredWeek, setSelectedStoredWeek] = useState("");
   const [autoLoadAttempted, setAutoLoadAttempted] = useState(false);
+  const [recalcPreview, setRecalcPreview] = useState<RecalcPreview | null>(null);
+  const [conflict, setConflict] = useState<PendingConflict | null>(null);
+  const [adjustmentDrafts, setAdjustmentDrafts] = useState<AdjustmentDraft[]>([]);
+  const [adjustmentsKey, setAdjustmentsKey] = useState("");
+  const loadedRevisionRef = useRef(0);
+  // Role from the last loaded Allowlist; async handlers read it after awaiting a load, past the rendered `role`.
+  const roleRef = useRef<Role | null>(null);
   const ensuredSheetsRef = useRef<Set<string>>(new Set());
   const setupCacheRef = useRef<{
     key: string;
@@ -103,6 +339,8 @@ export function WizardPage(): JSX.Element {
   const lastAutoCalcRef = useRef<string | null>(null);
 
   const timezoneOptions = useMemo(() => makeTimezoneOptions(), []);
+  const weekStartSettings = useMemo(() => weekStartSettingsFromConfig(config, timezone), [config, timezone]);
+  const weekStartError = weekStartUtcDate ? validateWeekStartDate(weekStartUtcDate, weekStartSettings) : null;
 
   if (!accessToken) {
     return <p>Not signed in.</p>;
@@ -112,9 +350,10 @@ export function WizardPage(): JSX.Element {
     usersInput = canonicalUsers,
     bossesInput = bosses,
     nameAliasesInput = nameAliases,
-    bossAliasesInput = bossAliases
+    bossAliasesInput = bossAliases,
+    modifiersInput = modifiers
   ) {
-    return createParserLookup(usersInput, bossesInput, nameAliasesInput, bossAliasesInput);
+    return createParserLookup(usersInput, bossesInput, nameAliasesInput, bossAliasesInput, modifiersInput);
   }
 
   function parseCurrentFile(
@@ -122,13 +361,16 @@ export function WizardPage(): JSX.Element {
     usersInput = canonicalUsers,
     bossesInput = bosses,
     nameAliasesInput = nameAliases,
-    bossAliasesInput = bossAliases
+    bossAliasesInput = bossAliases,
+    modifiersInput = modifiers,
+    settingsInput: WeekStartSettings = weekStartSettings,
+    weekStartInput = weekStartUtcDate
   ): ParsedLine[] {
-    if (!weekStartUtcDate) {
+    if (!weekStartInput || validateWeekStartDate(weekStartInput, settingsInput)) {
       return [];
     }
-    const lookup = buildLookup(usersInput, bossesInput, nameAliasesInput, bossAliasesInput);
-    const bounds = weekBoundsFromUtcSunday(weekStartUtcDate);
+    const lookup = buildLookup(usersInput, bossesInput, nameAliasesInput, bossAliasesInput, modifiersInput);
+    const bounds = weekBounds(weekStartInput, settingsInput);
     const mergedLines: Array<{ lineNumber: number; text: string }> = [];
     for (let index = 0; index < lines.length; index += 1) {
       const raw = lines[index] ?? "";
@@ -146,7 +388,7 @@ export function WizardPage(): JSX.Element {
 
     const output: ParsedLine[] = [];
     for (const entry of mergedLines) {
-      const parsed = parseLine(entry.text, entry.lineNumber, timezone, lookup);
+      const parsed = parseLine(entry.text, entry.lineNumber, settingsInput.timezone, lookup, formatDetection?.choice);
       if (parsed.timestampUtcMillis === undefined) {
         if (parsed.issues.length > 0) {
           output.push(parsed);
@@ -174,16 +416,31 @@ export function WizardPage(): JSX.Element {
     return indexes;
   }
 
-  function applySetupBundle(loaded: SetupBundle): void {
+  function applySetupBundle(loaded: SetupBundle): WeekSelection {
     setCanonicalUsers(loaded.users);
     setBosses(loaded.bosses);
     setBossAliases(loaded.bossAliases);
+    setModifiers(loaded.modifiers);
     setNameAliases(loaded.nameAliases);
     setConfig(loaded.config);
+    setActivityTiers(resolveActivityTiers(loaded.activityTiers, loaded.config));
     setStoredWeeks(loaded.weeks.map((week) => week.weekId).sort((a, b) => b.localeCompare(a)));
+    loadedRevisionRef.current = loaded.revision.revision;
+    roleRef.current = resolveRole(loaded.allowlist, authEmail);
+    setAccess(dataSpreadsheetId, roleRef.current);
+    const sheetTimezone = configuredTimezone(loaded.config);
+    const activeTimezone = !timezoneChosenRef.current && sheetTimezone ? sheetTimezone : timezone;
+    setTimezone(activeTimezone);
+    const loadedSettings = weekStartSettingsFromConfig(loaded.config, activeTimezone);
+    // The date was picked (or restored) against the previous settings; move to the current week if it no longer fits.
+    const activeWeekStart = validateWeekStartDate(weekStartUtcDate, loadedSettings)
+      ? defaultWeekStartDate(loadedSettings)
+      : weekStartUtcDate;
+    setWeekStartUtcDate(activeWeekStart);
+    return { weekStartSettings: loadedSettings, weekStartUtcDate: activeWeekStart };
   }
 
-  async function loadSetupData(forceRefresh = false): Promise<SetupBundle> {
+  async function loadSetupData(forceRefresh = false): Promise<LoadedSetup> {
     if (!usersSpreadsheetId.trim() || !usersRange.trim() || !dataSpreadsheetId.trim()) {
       throw new Error("Users Spreadsheet ID, Users Range, and Data Spreadsheet ID are required.");
     }
@@ -195,7 +452,7 @@ export function WizardPage(): JSX.Element {
       cached.key === cacheKey &&
       Date.now() - cached.loadedAt < 180000
     ) {
-      applySetupBundle(cached.data);
+      const cachedSelection = applySetupBundle(cached.data);
       if (rawLines.length > 0) {
         setParsedLines(
           parseCurrentFile(
@@ -203,20 +460,26 @@ export function WizardPage(): JSX.Element {
             cached.data.users,
             cached.data.bosses,
             cached.data.nameAliases,
-            cached.data.bossAliases
+            cached.data.bossAliases,
+            cached.data.modifiers,
+            cachedSelection.weekStartSettings,
+            cachedSelection.weekStartUtcDate
           )
         );
         setParseVersion((previous) => previous + 1);
         setHasParsed(true);
       }
-      return cached.data;
+      return { ...cached.data, ...cachedSelection };
     }
 
     const client = new SheetsClient(accessToken);
     const normalizedDataSheetId = dataSpreadsheetId.trim();
     if (!ensuredSheetsRef.current.has(normalizedDataSheetId)) {
-      await client.ensureSchema(normalizedDataSheetId);
+      const recovery = await client.ensureSchema(normalizedDataSheetId);
       ensuredSheetsRef.current.add(normalizedDataSheetId);
+      if (recovery) {
+        setStatus(recovery);
+      }
     }
     const loaded = await loadSetupBundle(
       client,
@@ -224,18 +487,33 @@ export function WizardPage(): JSX.Element {
       usersRange.trim(),
       normalizedDataSheetId
     );
-    if (loaded.allowlist.length > 0 && !loaded.allowlist.includes(authEmail)) {
+    if (!resolveRole(loaded.allowlist, authEmail)) {
       throw new Error("Your account is not in the Allowlist tab for this data sheet.");
     }
-    applySetupBundle(loaded);
+    const selection = applySetupBundle(loaded);
+    const invalidBosses = invalidBossRows(loaded.bosses);
+    if (invalidBosses.length > 0) {
+      throw new Error(`${describeInvalidBossRows(invalidBosses)} Fix them in Admin before running the wizard.`);
+    }
     if (rawLines.length > 0) {
-      setParsedLines(parseCurrentFile(rawLines, loaded.users, loaded.bosses, loaded.nameAliases, loaded.bossAliases));
+      setParsedLines(
+        parseCurrentFile(
+          rawLines,
+          loaded.users,
+          loaded.bosses,
+          loaded.nameAliases,
+          loaded.bossAliases,
+          loaded.modifiers,
+          selection.weekStartSettings,
+          selection.weekStartUtcDate
+        )
+      );
       setParseVersion((previous) => previous + 1);
       setHasParsed(true);
     }
     setSetup({
-      weekStartUtcDate,
-      timezone,
+      weekStartUtcDate: selection.weekStartUtcDate,
+      timezone: selection.weekStartSettings.timezone,
       usersSpreadsheetId,
       usersRange,
       dataSpreadsheetId
@@ -245,7 +523,7 @@ export function WizardPage(): JSX.Element {
       loadedAt: Date.now(),
       data: loaded
     };
-    return loaded;
+    return { ...loaded, ...selection };
   }
 
   async function onFileChange(event: ChangeEvent<HTMLInputElement>): Promise<void> {
@@ -258,15 +536,22 @@ export function WizardPage(): JSX.Element {
     setFileName(file.name);
     const text = await file.text();
     const lines = text.split(/\r?\n/);
+    const detection = detectChatFormat(lines);
     setRawLines(lines);
+    setFormatDetection(detection);
     setParsedLines([]);
     setDiscardedLines(new Set());
     setIssueCursor(0);
     setResultRows([]);
+    setTimelineSource(null);
     setBossColumns([]);
     setParseVersion((previous) => previous + 1);
     setHasParsed(false);
-    setStatus(`Loaded ${lines.length} lines. Click Run DKP Flow to process.`);
+    if (!detection) {
+      setStatus(`Loaded ${lines.length} lines, but no supported chat export format was detected.`);
+      return;
+    }
+    setStatus(`Loaded ${lines.length} lines (${detection.formatLabel}). Click Run DKP Flow to process.`);
   }
 
   function reparseAll(
@@ -274,9 +559,17 @@ export function WizardPage(): JSX.Element {
     usersInput = canonicalUsers,
     bossesInput = bosses,
     nameAliasesInput = nameAliases,
-    bossAliasesInput = bossAliases
+    bossAliasesInput = bossAliases,
+    modifiersInput = modifiers
   ): void {
-    const reparsed = parseCurrentFile(nextLines, usersInput, bossesInput, nameAliasesInput, bossAliasesInput);
+    const reparsed = parseCurrentFile(
+      nextLines,
+      usersInput,
+      bossesInput,
+      nameAliasesInput,
+      bossAliasesInput,
+      modifiersInput
+    );
     setParsedLines(reparsed);
     setParseVersion((previous) => previous + 1);
     setHasParsed(true);
@@ -291,6 +584,22 @@ export function WizardPage(): JSX.Element {
     }
   }, [issueCursor, unresolved.length]);
 
+  useEffect(() => {
+    setTimelineMember("");
+  }, [timelineSource]);
+
+  const timelineEntries = useMemo(() => {
+    if (!timelineSource || !timelineMember) {
+      return [];
+    }
+    return buildKillTimeline(
+      timelineSource.lines,
+      timelineMember,
+      buildBossPointSchedule(bosses, weekStartSettings.timezone),
+      roundingSettingsFromConfig(config)
+    );
+  }, [timelineSource, timelineMember, bosses, config, weekStartSettings.timezone]);
+
   useEffect(() => {
     if (!accessToken || autoLoadAttempted || busy) {
       return;
@@ -314,16 +623,70 @@ export function WizardPage(): JSX.Element {
       });
   }, [accessToken, autoLoadAttempted, busy, usersSpreadsheetId, usersRange, dataSpreadsheetId]);
 
+  async function recordAudit(
+    client: SheetsClient,
+    action: AuditAction,
+    target: string,
+    before: string,
+    after: string
+  ): Promise<void> {
+    // The change itself has committed by now, so a failed append must not read as a failed save and invite a retry.
+    try {
+      await appendAuditEntries(client, dataSpreadsheetId, [auditEntry(authEmail, action, target, before, after)]);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : "unknown error";
+      setError(
+        `The change to ${target} was saved, but its audit log entry could not be written (${reason}). ` +
+          "Do not repeat the change."
+      );
+    }
+  }
+
   async function persistAlias(tab: "BossAliases" | "NameAliases", alias: string, canonical: string): Promise<void> {
+    assertRole(roleRef.current, "admin", "add aliases");
     const client = new SheetsClient(accessToken);
     await appendRows(client, dataSpreadsheetId, tab, [[alias, canonical]]);
     setupCacheRef.current = null;
+    await recordAudit(client, "add_alias", `${tab}: ${alias}`, "", `${alias} -> ${canonical}`);
   }
 
   async function persistBoss(boss: string, points: number): Promise<void> {
+    assertRole(roleRef.current, "admin", "add bosses");
     const client = new SheetsClient(accessToken);
     await appendRows(client, dataSpreadsheetId, "Bosses", [[boss, String(points)]]);
     setupCacheRef.current = null;
+    await recordAudit(client, "add_boss", `Bosses: ${boss}`, "", `${points} pts`);
+  }
+
+  async function persistModifier(modifier: ModifierConfig): Promise<void> {
+    assertRole(roleRef.current, "admin", "add modifiers");
+    const client = new SheetsClient(accessToken);
+    await appendRows(client, dataSpreadsheetId, "Modifiers", [formatModifierRow(modifier)]);
+    setupCacheRef.current = null;
+    await recordAudit(
+      client,
+      "add_modifier",
+      `Modifiers: ${modifier.synonym}`,
+      "",
+      `${modifier.effect} ${modifier.value}`
+    );
+  }
+
+  async function handleAddModifier(token: string, effect: ModifierEffect, value: number): Promise<void> {
+    setError("");
+    try {
+      setBusy(true);
+      const modifier = { synonym: token, effect, value };
+      await persistModifier(modifier);
+      const next = [...modifiers, modifier];
+      setModifiers(next);
+      reparseAll(rawLines, canonicalUsers, bosses, nameAliases, bossAliases, next);
+      setStatus(`Added modifier: ${token} (${effect} ${value})`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to add modifier.");
+    } finally {
+      setBusy(false);
+    }
   }
 
   async function handleAddNameAlias(aliasToken: string, canonicalName: string): Promise<void> {
@@ -364,7 +727,7 @@ export function WizardPage(): JSX.Element {
       setBusy(true);
       await persistBoss(canonicalBoss, points);
       await persistAlias("BossAliases", aliasToken, canonicalBoss);
-      const nextBosses = [...bosses, { boss: canonicalBoss, points }];
+      const nextBosses = [...bosses, { boss: canonicalBoss, points, effectiveFrom: "" }];
       const nextBossAliases = [...bossAliases, { alias: aliasToken, canonical: canonicalBoss }];
       setBosses(nextBosses);
       setBossAliases(nextBossAliases);
@@ -412,7 +775,21 @@ export function WizardPage(): JSX.Element {
   }
 
   function canRunCalculation(): boolean {
-    return hasParsed && unresolved.length === 0 && canonicalUsers.length > 0 && !!weekStartUtcDate;
+    return (
+      hasRole(role, "recorder") &&
+      hasParsed &&
+      unresolved.length === 0 &&
+      canonicalUsers.length > 0 &&
+      !!weekStartUtcDate &&
+      !weekStartError &&
+      adjustmentsKey === currentAdjustmentsKey() &&
+      validateAdjustments(adjustmentDrafts, canonicalUsers).errors.length === 0
+    );
+  }
+
+  /** Identifies the week whose stored adjustments the editor must hold before a save may replace them. */
+  function currentAdjustmentsKey(): string {
+    return weekStartUtcDate ? `${dataSpreadsheetId.trim()}|${toWeekId(weekStartUtcDate)}` : "";
   }
 
   const hasSetupLoaded =
@@ -420,75 +797,99 @@ export function WizardPage(): JSX.Element {
 
   async function saveWeeklyData(
     weekId: string,
-    rows: WeekSummaryRow[]
-  ): Promise<{ rows: WeekSummaryRow[]; purgedCount: number }> {
+    rows: WeekSummaryRow[],
+    acceptedLines: ParsedLine[],
+    adjustments: WeekAdjustment[],
+    {
+      confirmOverwrite = true,
+      expectedRevision = loadedRevisionRef.current,
+      meta,
+      weekSettings = weekStartSettings,
+      auditAction = "save_week"
+    }: WeekSaveOptions = {}
+  ): Promise<{ rows: WeekSummaryRow[]; purgedCount: number; archived: boolean }> {
+    assertRole(roleRef.current, "recorder", "save weeks");
     const client = new SheetsClient(accessToken);
-    const { weeks, totalsRaw, breakdownRaw } = await loadWeekStorageBundle(client, dataSpreadsheetId);
+    const {
+      weeks,
+      weeksRaw,
+      totalsRaw,
+      breakdownRaw,
+      eventsRaw,
+      sourcesRaw,
+      adjustmentsRaw,
+      balancesRaw,
+      spendingRaw
+    } = await loadWeekStorageBundle(client, dataSpreadsheetId);
+    const { revision } = await client.checkRevision(dataSpreadsheetId, expectedRevision);
     const weekExists = weeks.some((week) => week.weekId === weekId);
-    if (weekExists) {
+    if (weekExists && confirmOverwrite) {
       const shouldOverwrite = window.confirm(`Week ${weekId} already exists. Overwrite?`);
       if (!shouldOverwrite) {
         throw new Error("Save cancelled by user.");
       }
     }
 
-    const bounds = weekBoundsFromUtcSunday(weekStartUtcDate);
+    const range = buildWeekRangeText(weekId, weekSettings);
     const createdUtc = DateTime.utc().toISO() || "";
     let updatedWeeks = weeks.filter((week) => week.weekId !== weekId);
     updatedWeeks.push({
       weekId,
-      startUtc: DateTime.fromMillis(bounds.startUtcMillis).toISO() || "",
-      endUtc: DateTime.fromMillis(bounds.endUtcMillis).toISO() || "",
-      timezone,
-      sourceFileName: fileName || "manual",
+      startUtc: range.startUtc,
+      endUtc: range.endUtc,
+      timezone: weekSettings.timezone,
+      sourceFileName: meta?.sourceFileName || fileName || "manual",
       createdUtc,
-      notes: ""
+      notes: meta?.notes || ""
     });
     updatedWeeks.sort((a, b) => a.weekId.localeCompare(b.weekId));
 
-    let purgedCount = 0;
-    if (updatedWeeks.length > 20) {
-      purgedCount = updatedWeeks.length - 20;
-      updatedWeeks = updatedWeeks.slice(-20);
+    const retention = historyRetentionFromConfig(config);
+    const purgedWeekIds = selectPurgedWeekIds(
+      updatedWeeks.map((week) => week.weekId),
+      retention
+    );
+    const archiveSpreadsheetId =
+      retention.archive === "spreadsheet" ? retention.archiveSpreadsheetId : dataSpreadsheetId;
+    if (purgedWeekIds.length > 0) {
+      if (retention.archive === "spreadsheet" && !archiveSpreadsheetId) {
+        throw new Error("history_archive is set to spreadsheet but history_archive_spreadsheet_id is empty.");
+      }
+      const shouldPurge = window.confirm(`${describePurge(purgedWeekIds, retention)}\n\nContinue saving?`);
+      if (!shouldPurge) {
+        throw new Error("Save cancelled by user.");
+      }
     }
+    const purgedSet = new Set(purgedWeekIds);
+    const purgedWeeks = updatedWeeks.filter((week) => purgedSet.has(week.weekId));
+    updatedWeeks = updatedWeeks.filter((week) => !purgedSet.has(week.weekId));
     const keepSet = new Set(updatedWeeks.map((week) => week.weekId));
 
-    const historical: HistoricalTotal[] = totalsRaw
-      .filter((row) => row[0] && row[1] && row[2] && row[3])
-      .map((row) => ({
-        weekId: row[0],
-        name: row[1],
-        totalPoints: Number(row[2]),
-        activityLevel: row[3],
-        streak: Number(row[4] || 1)
-      }))
-      .filter((row) => row.weekId !== weekId && keepSet.has(row.weekId));
+    const keptTotals = indexedTotals(totalsRaw).filter(({ row }) => row[0] !== weekId && keepSet.has(row[0]));
+    const historical: HistoricalTotal[] = keptTotals.map(({ row }) => toHistoricalTotal(row));
     for (const row of rows) {
       historical.push({
         weekId,
         name: row.name,
         totalPoints: row.totalPoints,
         activityLevel: row.activityLevel,
-        streak: 1
+        streak: 1,
+        longestStreak: 1
       });
     }
-    recomputeStreaks(historical, updatedWeeks.map((week) => week.weekId));
-
-    const totalsRows = historical
-      .sort((a, b) => a.weekId.localeCompare(b.weekId) || a.name.localeCompare(b.name))
-      .map((row) => [
-        row.weekId,
-        row.name,
-        String(row.totalPoints),
-        row.activityLevel,
-        String(row.streak)
-      ]);
+    recomputeStreaks(
+      historical,
+      updatedWeeks.map((week) => week.weekId),
+      activityTiers,
+      streakSettingsFromConfig(config)
+    );
+    const newTotalsRows = historical.slice(keptTotals.length).map(toTotalsRow);
 
-    const updatedBreakdown = breakdownRaw.filter((row) => row[0] !== weekId && keepSet.has(row[0]));
+    const newBreakdown: string[][] = [];
     for (const row of rows) {
       const bossesSet = new Set([...Object.keys(row.bossCounts), ...Object.keys(row.bossPoints)]);
       for (const boss of bossesSet) {
-        updatedBreakdown.push([
+        newBreakdown.push([
           weekId,
           row.name,
           boss,
@@ -498,49 +899,112 @@ export function WizardPage(): JSX.Element {
       }
     }
 
-    const weekRows = updatedWeeks.map((row) => [
-      row.weekId,
-      row.startUtc,
-      row.endUtc,
-      row.timezone,
-      row.sourceFileName,
-      row.createdUtc,
-      row.notes
+    const newEvents: string[][] = [];
+    const newSources: string[][] = [];
+    for (const line of acceptedLines) {
+      newSources.push([weekId, String(line.lineNumber), line.rawText]);
+      if (line.bossCanonical) {
+        newEvents.push(toWeekEventRow(weekId, line));
+      }
+    }
+
+    const savedWeek = updatedWeeks.find((week) => week.weekId === weekId);
+    const ledger = rebuildBalances(
+      updatedWeeks.map((week) => week.weekId),
+      historical,
+      parseBalanceRows(balancesRaw),
+      weekId,
+      balanceSettingsFromConfig(config),
+      parseSpendingRows(spendingRaw)
+    );
+    const balanceKeys = new Set([
+      ...weekIdsFrom(updatedWeeks, ledger.fromWeekId),
+      weekId,
+      ...purgedWeekIds
     ]);
 
-    await Promise.all([
-      replaceTabRows(
-        client,
-        dataSpreadsheetId,
-        "Weeks",
-        ["WeekId", "StartUTC", "EndUTC", "Timezone", "SourceFileName", "CreatedUTC", "Notes"],
-        weekRows
-      ),
-      replaceTabRows(
-        client,
-        dataSpreadsheetId,
-        "WeekUserTotals",
-        ["WeekId", "Name", "TotalPoints", "ActivityLevel", "Streak"],
-        totalsRows
-      ),
-      replaceTabRows(
-        client,
-        dataSpreadsheetId,
-        "WeekBossBreakdown",
-        ["WeekId", "Name", "Boss", "Points", "Count"],
-        updatedBreakdown
+    // The Meta marker is cleared in the same batchUpdate that patches the live tabs. If anything fails before that,
+    // the next ensureSchema finds the marker and trims whatever the archive append already wrote.
+    const archived = purgedWeeks.length > 0 && retention.archive !== "off";
+    const metaRows = await beginWeekWrite(client, dataSpreadsheetId, {
+      action: "save",
+      weekId,
+      startedUtc: createdUtc,
+      ...(archived
+        ? { archiveSpreadsheetId, archiveRowCounts: await countArchiveRows(client, archiveSpreadsheetId) }
+        : {})
+    });
+    if (archived) {
+      await archiveWeekRows(client, archiveSpreadsheetId, {
+        Weeks: purgedWeeks.map(toWeekRow),
+        WeekUserTotals: totalsRaw.filter((row) => purgedSet.has(row[0])),
+        WeekBossBreakdown: breakdownRaw.filter((row) => purgedSet.has(row[0])),
+        WeekEvents: eventsRaw.filter((row) => purgedSet.has(row[0])),
+        WeekSources: sourcesRaw.filter((row) => purgedSet.has(row[0])),
+        WeekAdjustments: adjustmentsRaw.filter((row) => purgedSet.has(row[0])),
+        Balances: balancesRaw.filter((row) => purgedSet.has(row[0]))
+      });
+    }
+
+    // A page load that took this write for an abandoned one has rolled it back and bumped the revision; stop here.
+    await client.checkRevision(dataSpreadsheetId, revision.revision);
+    const removeKeys = new Set([weekId, ...purgedWeekIds]);
+    await client.patchWeekRows(dataSpreadsheetId, [
+      {
+        tabName: "Weeks",
+        existingRows: weeksRaw,
+        removeKeys,
+        appendRows: savedWeek ? [toWeekRow(savedWeek)] : []
+      },
+      {
+        tabName: "WeekUserTotals",
+        existingRows: totalsRaw,
+        removeKeys,
+        updates: streakUpdates(keptTotals, historical),
+        appendRows: newTotalsRows
+      },
+      { tabName: "WeekBossBreakdown", existingRows: breakdownRaw, removeKeys, appendRows: newBreakdown },
+      { tabName: "WeekEvents", existingRows: eventsRaw, removeKeys, appendRows: newEvents },
+      { tabName: "WeekSources", existingRows: sourcesRaw, removeKeys, appendRows: newSources },
+      {
+        tabName: "WeekAdjustments",
+        existingRows: adjustmentsRaw,
+        removeKeys,
+        appendRows: adjustments.map((adjustment) => toAdjustmentRow(weekId, adjustment))
+      },
+      {
+        tabName: "Balances",
+        existingRows: balancesRaw,
+        removeKeys: balanceKeys,
+        appendRows: ledger.rows.map(toBalanceRow)
+      },
+      commitWeekWritePatch(
+        metaRows,
+        nextRevision(revision, {
+          updatedBy: authEmail,
+          updatedUtc: createdUtc,
+          note: `Saved week ${weekId}`,
+          scope: weekId
+        })
       )
     ]);
+    await recordAudit(
+      client,
+      auditAction,
+      weekId,
+      summarizeWeekTotals(totalsRaw.filter((row) => row[0] === weekId).map((row) => toHistoricalTotal(row))),
+      [
+        summarizeWeekTotals(rows),
+        ...(adjustments.length > 0 ? [`${adjustments.length} adjustment(s)`] : []),
+        ...(purgedWeekIds.length > 0 ? [`purged ${purgedWeekIds.join(", ")}`] : [])
+      ].join("; ")
+    );
 
     setStoredWeeks(updatedWeeks.map((week) => week.weekId).sort((a, b) => b.localeCompare(a)));
     setupCacheRef.current = null;
+    loadedRevisionRef.current = revision.revision + 1;
 
-    const streakMap = new Map<string, number>();
-    for (const row of historical) {
-      if (row.weekId === weekId) {
-        streakMap.set(row.name, row.streak);
-      }
-    }
+    const streakMap = new Map(historical.filter((row) => row.weekId === weekId).map((row) => [row.name, row]));
     const last3Totals = computeLast3WeekTotals(
       historical.map((row) => ({
         weekId: row.weekId,
@@ -550,33 +1014,60 @@ export function WizardPage(): JSX.Element {
       updatedWeeks.map((week) => week.weekId),
       weekId
     );
+    const weekBalances = new Map(
+      ledger.rows.filter((row) => row.weekId === weekId).map((row) => [row.name, row])
+    );
     const updatedRows = rows.map((row) => ({
       ...row,
-      streak: streakMap.get(row.name) || 1,
-      last3WeeksTotal: last3Totals.get(row.name) || row.totalPoints
+      streak: streakMap.get(row.name)?.streak ?? 1,
+      longestStreak: streakMap.get(row.name)?.longestStreak ?? 1,
+      last3WeeksTotal: last3Totals.get(row.name) || row.totalPoints,
+      carriedBalance: weekBalances.get(row.name)?.carried || 0,
+      spent: weekBalances.get(row.name)?.spent || 0,
+      balance: weekBalances.get(row.name)?.balance || 0
     }));
-    return { rows: updatedRows, purgedCount };
+    return { rows: updatedRows, purgedCount: purgedWeeks.length, archived };
+  }
+
+  function summarizeLines(
+    lines: ParsedLine[],
+    usersInput = canonicalUsers,
+    bossesInput = bosses,
+    configInput = config,
+    adjustmentsInput: WeekAdjustment[] = [],
+    tiersInput = activityTiers,
+    settingsInput = weekStartSettingsFromConfig(configInput, timezone)
+  ): WeekSummaryRow[] {
+    const bossSchedule = buildBossPointSchedule(bossesInput, settingsInput.timezone);
+    return computeWeeklySummary(
+      lines,
+      bossSchedule,
+      usersInput,
+      tiersInput,
+      adjustmentsInput,
+      roundingSettingsFromConfig(configInput)
+    );
   }
 
-  async function calculateAndSaveFromParsed(linesToUse: ParsedLine[]): Promise<void> {
+  async function calculateAndSaveFromParsed(
+    linesToUse: ParsedLine[],
+    expectedRevision: number | null = loadedRevisionRef.current
+  ): Promise<void> {
     const inScope = linesToUse.filter((line) => !discardedLines.has(line.lineNumber) && line.issues.length === 0);
-    const bossPointsMap = new Map(bosses.map((boss) => [boss.boss, boss.points]));
-    const lowMax = Number(config.activity_low_max ?? "4");
-    const mediumMax = Number(config.activity_medium_max ?? "9");
-    const summary = computeWeeklySummary(inScope, bossPointsMap, canonicalUsers, {
-      lowMax,
-      mediumMax
-    });
+    const { adjustments, errors } = validateAdjustments(adjustmentDrafts, canonicalUsers);
+    if (errors.length > 0) {
+      throw new Error(errors[0]);
+    }
+    const summary = summarizeLines(inScope, canonicalUsers, bosses, config, adjustments);
     const weekId = toWeekId(weekStartUtcDate);
-    const { rows: withStreak, purgedCount } = await saveWeeklyData(weekId, summary);
+    const { rows: withStreak, purgedCount, archived } = await saveWeeklyData(weekId, summary, inScope, adjustments, {
+      expectedRevision
+    });
     const dynamicBosses = [...new Set(bosses.map((boss) => boss.boss))].sort((a, b) => a.localeCompare(b));
     setBossColumns(dynamicBosses);
     setResultRows(withStreak);
-    if (purgedCount > 0) {
-      setStatus(`Week ${weekId} calculated and saved. Purged ${purgedCount} old week(s).`);
-    } else {
-      setStatus(`Week ${weekId} calculated and saved.`);
-    }
+    setTimelineSource({ lines: inScope, timezone: weekStartSettings.timezone });
+    setStatus(`Week ${weekId} calculated and saved.${purgeSummary(purgedCount, archived)}`);
     setSelectedStoredWeek(weekId);
   }
 
@@ -592,7 +1083,17 @@ export function WizardPage(): JSX.Element {
       setBusy(true);
       setStatus("Loading setup and parsing file...");
       const loaded = await loadSetupData();
-      const reparsed = parseCurrentFile(rawLines, loaded.users, loaded.bosses, loaded.nameAliases, loaded.bossAliases);
+      assertRole(roleRef.current, "recorder", "run the wizard");
+      const reparsed = parseCurrentFile(
+        rawLines,
+        loaded.users,
+        loaded.bosses,
+        loaded.nameAliases,
+        loaded.bossAliases,
+        loaded.modifiers,
+        loaded.weekStartSettings,
+        loaded.weekStartUtcDate
+      );
       setParsedLines(reparsed);
       setParseVersion((previous) => previous + 1);
       setHasParsed(true);
@@ -619,64 +1120,20 @@ export function WizardPage(): JSX.Element {
     try {
       setBusy(true);
       const client = new SheetsClient(accessToken);
-      const { totalsRaw, breakdownRaw } = await loadWeekStorageBundle(client, dataSpreadsheetId);
-      const totals = totalsRaw.filter((row) => row[0] === weekId);
-      const breakdown = breakdownRaw.filter((row) => row[0] === weekId);
-      const bossSet = new Set<string>();
-      const rowMap = new Map<string, WeekSummaryRow>();
-      for (const row of totals) {
-        const name = row[1];
-        rowMap.set(name, {
-          name,
-          totalPoints: Number(row[2] || 0),
-          activityLevel: row[3] || "Low",
-          streak: Number(row[4] || 1),
-          last3WeeksTotal: 0,
-          bossPoints: {},
-          bossCounts: {}
-        });
-      }
-      for (const row of breakdown) {
-        const name = row[1];
-        const boss = row[2];
-        bossSet.add(boss);
-        if (!rowMap.has(name)) {
-          rowMap.set(name, {
-            name,
-            totalPoints: 0,
-            activityLevel: "Low",
-            streak: 1,
-            last3WeeksTotal: 0,
-            bossPoints: {},
-            bossCounts: {}
-          });
-        }
-        const item = rowMap.get(name)!;
-        item.bossPoints[boss] = Number(row[3] || 0);
-        item.bossCounts[boss] = Number(row[4] || 0);
-      }
-      const rows = Array.from(rowMap.values()).sort(
-        (a, b) => b.totalPoints - a.totalPoints || a.name.localeCompare(b.name)
+      const { totalsRaw, breakdownRaw, adjustmentsRaw, balancesRaw } = await loadWeekStorageBundle(
+        client,
+        dataSpreadsheetId
       );
-      const weeksAscending = Array.from(
-        new Set(totalsRaw.map((row) => row[0]).filter((candidate): candidate is string => Boolean(candidate)))
-      ).sort((a, b) => a.localeCompare(b));
-      const last3Totals = computeLast3WeekTotals(
-        totalsRaw
-          .filter((row) => row[0] && row[1] && row[2])
-          .map((row) => ({
-            weekId: row[0],
-            name: row[1],
-            totalPoints: Number(row[2] || 0)
-          })),
-        weeksAscending,
-        weekId
+      const { rows, bossColumns: storedBossColumns } = storedWeekRows(
+        weekId,
+        totalsRaw,
+        breakdownRaw,
+        adjustmentsRaw,
+        balancesRaw
       );
-      for (const row of rows) {
-        row.last3WeeksTotal = last3Totals.get(row.name) || row.totalPoints;
-      }
       setResultRows(rows);
-      setBossColumns(Array.from(bossSet).sort((a, b) => a.localeCompare(b)));
+      setTimelineSource(null);
+      setBossColumns(storedBossColumns);
       setStatus(`Loaded stored week ${weekId}.`);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Unable to load week.");
@@ -685,94 +1142,327 @@ export function WizardPage(): JSX.Element {
     }
   }
 
-  async function deleteStoredWeek(weekId: string): Promise<void> {
+  async function exportBoard(): Promise<void> {
+    setError("");
+    try {
+      setBusy(true);
+      const client = new SheetsClient(accessToken);
+      const { weeks, totalsRaw, breakdownRaw, adjustmentsRaw, balancesRaw } = await loadWeekStorageBundle(
+        client,
+        dataSpreadsheetId
+      );
+      const snapshot = buildBoardSnapshot(
+        weeks,
+        totalsRaw,
+        breakdownRaw,
+        adjustmentsRaw,
+        balancesRaw,
+        activityTiers,
+        streakLabel(streakSettingsFromConfig(config)),
+        DateTime.utc().toISO() || ""
+      );
+      exportBoardSnapshot(snapshot);
+      setStatus(
+        `Board snapshot exported with ${snapshot.standings.weekIds.length} week(s). Publish board.json next to the app.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to export board snapshot.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  /** Saves edited adjustments: recalculates the loaded file, or previews a recalculation of the stored week. */
+  async function applyAdjustments(): Promise<void> {
+    const { adjustments, errors } = validateAdjustments(adjustmentDrafts, canonicalUsers);
+    if (errors.length > 0) {
+      setError(errors[0]);
+      return;
+    }
+    if (canRunCalculation()) {
+      lastAutoCalcRef.current = autoCalcKey;
+      await autoSaveParsed();
+      return;
+    }
+    if (storedWeeks.includes(weekId)) {
+      await prepareRecalculation(weekId, adjustments);
+      return;
+    }
+    setError(`Upload the timers file for week ${weekId} before adding adjustments to it.`);
+  }
+
+  /** Re-parses a stored week; `adjustmentsOverride` swaps in edited adjustments instead of the stored ones. */
+  async function prepareRecalculation(weekId: string, adjustmentsOverride?: WeekAdjustment[]): Promise<void> {
+    if (!weekId) {
+      return;
+    }
+    setError("");
+    setRecalcPreview(null);
+    try {
+      setBusy(true);
+      setStatus(`Re-parsing retained source for week ${weekId}...`);
+      const loaded = await loadSetupData(true);
+      assertRole(roleRef.current, "recorder", "recalculate weeks");
+      const client = new SheetsClient(accessToken);
+      const { weeks, totalsRaw, sourcesRaw, adjustmentsRaw } = await loadWeekStorageBundle(client, dataSpreadsheetId);
+      const week = weeks.find((candidate) => candidate.weekId === weekId);
+      if (!week) {
+        throw new Error(`Week ${weekId} not found.`);
+      }
+      const sources = sourcesRaw
+        .filter((row) => row[0] === weekId && row[2])
+        .map((row) => ({ lineNumber: Number(row[1] || 0), text: row[2] }));
+      if (sources.length === 0) {
+        throw new Error(`Week ${weekId} has no retained source lines. Re-upload its timers file instead.`);
+      }
+
+      const weekSettings = weekStartSettingsFromConfig(
+        loaded.config,
+        week.timezone || loaded.weekStartSettings.timezone
+      );
+      const lookup = createParserLookup(
+        loaded.users,
+        loaded.bosses,
+        loaded.nameAliases,
+        loaded.bossAliases,
+        loaded.modifiers
+      );
+      const choice = detectChatFormat(sources.map((source) => source.text))?.choice;
+      const reparsed = sources.map((source) =>
+        parseLine(source.text, source.lineNumber, weekSettings.timezone, lookup, choice)
+      );
+      const broken = reparsed.filter((line) => line.issues.length > 0);
+      if (broken.length > 0) {
+        const first = broken[0];
+        throw new Error(
+          `${broken.length} retained line(s) no longer parse cleanly (line ${first.lineNumber}: ${first.issues[0].message}). Fix the data sheet in Admin, then retry.`
+        );
+      }
+
+      const adjustments = adjustmentsOverride ?? weekAdjustmentsFromRows(adjustmentsRaw, weekId);
+      const summary = summarizeLines(
+        reparsed,
+        loaded.users,
+        loaded.bosses,
+        loaded.config,
+        adjustments,
+        resolveActivityTiers(loaded.activityTiers, loaded.config),
+        weekSettings
+      );
+      const before = new Map(
+        totalsRaw.filter((row) => row[0] === weekId && row[1]).map((row) => [row[1], Number(row[2] || 0)])
+      );
+      const diff = diffWeekTotals(before, summary);
+      setRecalcPreview({ week, summary, acceptedLines: reparsed, adjustments, diff, weekSettings });
+      setStatus(
+        diff.length === 0
+          ? `Recalculated week ${weekId}: no member totals change.`
+          : `Recalculated week ${weekId}: ${diff.length} member total(s) change. Review and save below.`
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to recalculate week.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function captureConflict(err: unknown, weekId: string, retry: PendingConflict["retry"]): boolean {
+    if (!(err instanceof RevisionConflictError)) {
+      return false;
+    }
+    setConflict({ error: err, weekId, retry });
+    setStatus("");
+    return true;
+  }
+
+  async function resolveConflict(action: "reload" | "force"): Promise<void> {
+    if (!conflict) {
+      return;
+    }
+    const { error: conflictError, retry } = conflict;
+    setConflict(null);
+    if (action === "force") {
+      await retry(null);
+      return;
+    }
+    try {
+      setBusy(true);
+      await loadSetupData(true);
+      setStatus(`Reloaded revision ${conflictError.remote.revision}. Run DKP Flow again to recalculate on top of it.`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unable to reload setup.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function autoSaveParsed(expectedRevision: number | null = loadedRevisionRef.current): Promise<void> {
+    setError("");
+    setStatus("Auto-calculating and saving week...");
+    setBusy(true);
+    try {
+      await calculateAndSaveFromParsed(parsedLines, expectedRevision);
+    } catch (err) {
+      if (captureConflict(err, toWeekId(weekStartUtcDate), autoSaveParsed)) {
+        return;
+      }
+      const message = err instanceof Error ? err.message : "Auto-calculation failed.";
+      setError(message);
+      if (message === "Save cancelled by user.") {
+        setStatus("Auto-save cancelled. Use Run DKP Flow to retry.");
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function saveRecalculation(expectedRevision: number | null = loadedRevisionRef.current): Promise<void> {
+    if (!recalcPreview) {
+      return;
+    }
+    const { week, summary, acceptedLines, adjustments, weekSettings } = recalcPreview;
+    setError("");
+    try {
+      setBusy(true);
+      const { rows: withStreak, purgedCount, archived } = await saveWeeklyData(
+        week.weekId,
+        summary,
+        acceptedLines,
+        adjustments,
+        {
+          confirmOverwrite: false,
+          expectedRevision,
+          auditAction: "recalculate_week",
+          weekSettings,
+          meta: {
+            sourceFileName: week.sourceFileName,
+            notes: week.notes
+          }
+        }
+      );
+      setBossColumns([...new Set(bosses.map((boss) => boss.boss))].sort((a, b) => a.localeCompare(b)));
+      setResultRows(withStreak);
+      setTimelineSource({ lines: acceptedLines, timezone: weekSettings.timezone });
+      setRecalcPreview(null);
+      setSelectedStoredWeek(week.weekId);
+      setStatus(`Week ${week.weekId} recalculated and saved.${purgeSummary(purgedCount, archived)}`);
+    } catch (err) {
+      if (captureConflict(err, week.weekId, saveRecalculation)) {
+        return;
+      }
+      setError(err instanceof Error ? err.message : "Unable to save recalculated week.");
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function deleteStoredWeek(
+    weekId: string,
+    expectedRevision: number | null = loadedRevisionRef.current,
+    confirmed = false
+  ): Promise<void> {
     if (!weekId) {
       return;
     }
-    const shouldDelete = window.confirm(`Delete week ${weekId}? This cannot be undone.`);
-    if (!shouldDelete) {
+    if (!confirmed && !window.confirm(`Delete week ${weekId}? This cannot be undone.`)) {
       return;
     }
     setError("");
     try {
       setBusy(true);
+      assertRole(roleRef.current, "admin", "delete weeks");
       const client = new SheetsClient(accessToken);
-      const { weeks, totalsRaw, breakdownRaw } = await loadWeekStorageBundle(client, dataSpreadsheetId);
+      const {
+        weeks,
+        weeksRaw,
+        totalsRaw,
+        breakdownRaw,
+        eventsRaw,
+        sourcesRaw,
+        adjustmentsRaw,
+        balancesRaw,
+        spendingRaw
+      } = await loadWeekStorageBundle(client, dataSpreadsheetId);
       if (!weeks.some((week) => week.weekId === weekId)) {
         throw new Error(`Week ${weekId} not found.`);
       }
+      const { revision } = await client.checkRevision(dataSpreadsheetId, expectedRevision);
 
       const updatedWeeks = weeks.filter((week) => week.weekId !== weekId);
       updatedWeeks.sort((a, b) => a.weekId.localeCompare(b.weekId));
 
-      const historical: HistoricalTotal[] = totalsRaw
-        .filter((row) => row[0] && row[1] && row[2] && row[3])
-        .map((row) => ({
-          weekId: row[0],
-          name: row[1],
-          totalPoints: Number(row[2]),
-          activityLevel: row[3],
-          streak: Number(row[4] || 1)
-        }))
-        .filter((row) => row.weekId !== weekId);
-
-      recomputeStreaks(historical, updatedWeeks.map((week) => week.weekId));
-
-      const totalsRows = historical
-        .sort((a, b) => a.weekId.localeCompare(b.weekId) || a.name.localeCompare(b.name))
-        .map((row) => [
-          row.weekId,
-          row.name,
-          String(row.totalPoints),
-          row.activityLevel,
-          String(row.streak)
-        ]);
-
-      const updatedBreakdown = breakdownRaw.filter((row) => row[0] !== weekId);
-      const weekRows = updatedWeeks.map((row) => [
-        row.weekId,
-        row.startUtc,
-        row.endUtc,
-        row.timezone,
-        row.sourceFileName,
-        row.createdUtc,
-        row.notes
-      ]);
+      const keptTotals = indexedTotals(totalsRaw).filter(({ row }) => row[0] !== weekId);
+      const historical = keptTotals.map(({ row }) => toHistoricalTotal(row));
+      recomputeStreaks(
+        historical,
+        updatedWeeks.map((week) => week.weekId),
+        activityTiers,
+        streakSettingsFromConfig(config)
+      );
+      const ledger = rebuildBalances(
+        updatedWeeks.map((week) => week.weekId),
+        historical,
+        parseBalanceRows(balancesRaw),
+        weekId,
+        balanceSettingsFromConfig(config),
+        parseSpendingRows(spendingRaw)
+      );
 
-      await Promise.all([
-        replaceTabRows(
-          client,
-          dataSpreadsheetId,
-          "Weeks",
-          ["WeekId", "StartUTC", "EndUTC", "Timezone", "SourceFileName", "CreatedUTC", "Notes"],
-          weekRows
-        ),
-        replaceTabRows(
-          client,
-          dataSpreadsheetId,
-          "WeekUserTotals",
-          ["WeekId", "Name", "TotalPoints", "ActivityLevel", "Streak"],
-          totalsRows
-        ),
-        replaceTabRows(
-          client,
-          dataSpreadsheetId,
-          "WeekBossBreakdown",
-          ["WeekId", "Name", "Boss", "Points", "Count"],
-          updatedBreakdown
+      const startedUtc = DateTime.utc().toISO() || "";
+      const metaRows = await beginWeekWrite(client, dataSpreadsheetId, { action: "delete", weekId, startedUtc });
+      await client.checkRevision(dataSpreadsheetId, revision.revision);
+      const removeKeys = new Set([weekId]);
+      await client.patchWeekRows(dataSpreadsheetId, [
+        { tabName: "Weeks", existingRows: weeksRaw, removeKeys },
+        {
+          tabName: "WeekUserTotals",
+          existingRows: totalsRaw,
+          removeKeys,
+          updates: streakUpdates(keptTotals, historical)
+        },
+        { tabName: "WeekBossBreakdown", existingRows: breakdownRaw, removeKeys },
+        { tabName: "WeekEvents", existingRows: eventsRaw, removeKeys },
+        { tabName: "WeekSources", existingRows: sourcesRaw, removeKeys },
+        { tabName: "WeekAdjustments", existingRows: adjustmentsRaw, removeKeys },
+        {
+          tabName: "Balances",
+          existingRows: balancesRaw,
+          removeKeys: new Set([...weekIdsFrom(updatedWeeks, ledger.fromWeekId), weekId]),
+          appendRows: ledger.rows.map(toBalanceRow)
+        },
+        commitWeekWritePatch(
+          metaRows,
+          nextRevision(revision, {
+            updatedBy: authEmail,
+            updatedUtc: startedUtc,
+            note: `Deleted week ${weekId}`,
+            scope: weekId
+          })
         )
       ]);
+      await recordAudit(
+        client,
+        "delete_week",
+        weekId,
+        summarizeWeekTotals(totalsRaw.filter((row) => row[0] === weekId).map((row) => toHistoricalTotal(row))),
+        "deleted"
+      );
 
       setStoredWeeks(updatedWeeks.map((week) => week.weekId).sort((a, b) => b.localeCompare(a)));
       setupCacheRef.current = null;
+      loadedRevisionRef.current = revision.revision + 1;
 
       if (selectedStoredWeek === weekId) {
         setSelectedStoredWeek("");
         setResultRows([]);
+        setTimelineSource(null);
         setBossColumns([]);
       }
       setStatus(`Deleted week ${weekId}.`);
     } catch (err) {
+      if (captureConflict(err, weekId, (expected) => deleteStoredWeek(weekId, expected, true))) {
+        return;
+      }
       setError(err instanceof Error ? err.message : "Unable to delete week.");
     } finally {
       setBusy(false);
@@ -793,21 +1483,43 @@ export function WizardPage(): JSX.Element {
       return;
     }
     lastAutoCalcRef.current = autoCalcKey;
-    setError("");
-    setStatus("Auto-calculating and saving week...");
-    setBusy(true);
-    calculateAndSaveFromParsed(parsedLines)
-      .catch((err) => {
-        const message = err instanceof Error ? err.message : "Auto-calculation failed.";
-        setError(message);
-        if (message === "Save cancelled by user.") {
-          setStatus("Auto-save cancelled. Use Run DKP Flow to retry.");
+    void autoSaveParsed();
+  }, [
+    autoCalcKey,
+    busy,
+    parsedLines,
+    hasParsed,
+    unresolved.length,
+    canonicalUsers.length,
+    weekStartUtcDate,
+    adjustmentsKey
+  ]);
+
+  // Adjustments are stored per week, so they are reloaded whenever the week changes and before any auto-save.
+  useEffect(() => {
+    const key = currentAdjustmentsKey();
+    if (!hasSetupLoaded || !key || adjustmentsKey === key) {
+      return;
+    }
+    let cancelled = false;
+    loadWeekAdjustments(new SheetsClient(accessToken), dataSpreadsheetId.trim(), weekId)
+      .then((loaded) => {
+        if (!cancelled) {
+          setAdjustmentDrafts(loaded.map(toAdjustmentDraft));
+          setAdjustmentsKey(key);
         }
       })
-      .finally(() => {
-        setBusy(false);
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : "Unable to load adjustments.");
+        }
       });
-  }, [autoCalcKey, busy, parsedLines, hasParsed, unresolved.length, canonicalUsers.length, weekStartUtcDate]);
+    return () => {
+      cancelled = true;
+    };
+  }, [hasSetupLoaded, weekId, dataSpreadsheetId, adjustmentsKey]);
+
+  const adjustmentErrors = validateAdjustments(adjustmentDrafts, canonicalUsers).errors;
 
   function statusLine(): string {
     if (busy) {
@@ -816,6 +1528,12 @@ export function WizardPage(): JSX.Element {
     if (!hasSetupLoaded) {
       return "Next: load setup details.";
     }
+    if (!hasRole(role, "recorder")) {
+      return "Viewer access: load a stored week below to review or export it.";
+    }
+    if (weekStartError) {
+      return `Next: pick a week start on a ${weekdayName(weekStartSettings.weekday)}.`;
+    }
     if (rawLines.length === 0) {
       return "Next: upload Timers file.";
     }
@@ -825,6 +1543,9 @@ export function WizardPage(): JSX.Element {
     if (unresolved.length > 0) {
       return `Resolver: ${unresolved.length} line(s) need attention.`;
     }
+    if (adjustmentErrors.length > 0) {
+      return "Adjustments: fix the highlighted entries before saving.";
+    }
     if (resultRows.length > 0) {
       return "Week saved. You can export or review history.";
     }
@@ -854,6 +1575,23 @@ export function WizardPage(): JSX.Element {
     <main className="page">
       <AppHeader />
       <StatusBanner status={status} error={error} onClearStatus={() => setStatus("")} />
+      {conflict ? (
+        <ConflictDialog
+          expected={conflict.error.expected}
+          remote={conflict.error.remote}
+          details={[
+            `Force overwrite re-applies your change to week ${conflict.weekId} on top of the latest history; other weeks` +
+              " saved remotely are kept.",
+            conflict.error.remote.scope === conflict.weekId
+              ? `The remote change also touched week ${conflict.weekId}. Reload to review it; overwriting replaces it.`
+              : ""
+          ].filter(Boolean)}
+          busy={busy}
+          onReload={() => resolveConflict("reload")}
+          onForce={() => resolveConflict("force")}
+          onCancel={() => setConflict(null)}
+        />
+      ) : null}
 
       <section className="card">
         <h2>Wizard Setup</h2>
@@ -868,7 +1606,7 @@ export function WizardPage(): JSX.Element {
         <p className="status-inline">{statusLine()}</p>
         <div className="form-grid">
           <label>
-            Week Start (UTC Sunday only)
+            Week Start ({weekdayName(weekStartSettings.weekday)} only)
             <input
               type="date"
               value={weekStartUtcDate}
@@ -878,24 +1616,20 @@ export function WizardPage(): JSX.Element {
                   setWeekStartUtcDate("");
                   return;
                 }
-                const parsed = DateTime.fromISO(nextValue, { zone: "utc" });
-                if (!parsed.isValid) {
-                  setError("Invalid week start date.");
-                  return;
-                }
-                if (parsed.weekday !== 7) {
-                  const adjusted = parsed.minus({ days: parsed.weekday % 7 }).toISODate() || nextValue;
-                  setWeekStartUtcDate(adjusted);
-                  setStatus(`Adjusted week start to Sunday (${adjusted}).`);
-                  return;
-                }
-                setWeekStartUtcDate(nextValue);
+                setError("");
+                setWeekStartUtcDate(snapToWeekStart(nextValue, weekStartSettings));
               }}
             />
           </label>
           <label>
-            Input Timestamp Timezone
-            <select value={timezone} onChange={(event) => setTimezone(event.target.value)}>
+            Timezone (timestamps and week bounds)
+            <select
+              value={timezone}
+              onChange={(event) => {
+                timezoneChosenRef.current = true;
+                setTimezone(event.target.value);
+              }}
+            >
               {timezoneOptions.map((zone) => (
                 <option key={zone} value={zone}>
                   {zone}
@@ -923,13 +1657,25 @@ export function WizardPage(): JSX.Element {
             type="button"
             className="form-primary-action"
             onClick={runWeekFlow}
-            disabled={busy || rawLines.length === 0}
+            disabled={busy || rawLines.length === 0 || (role !== null && !hasRole(role, "recorder"))}
           >
             {primaryCtaLabel()}
           </button>
         </div>
         <p className="hint">Run DKP Flow loads setup, parses file, then either opens resolver or auto-saves.</p>
-        <p className="hint">Current week ID: {weekId || "N/A"}.</p>
+        <p className="hint">
+          Current week ID: {weekId || "N/A"}. Weeks start {weekdayName(weekStartSettings.weekday)}{" "}
+          {String(weekStartSettings.hour).padStart(2, "0")}:00 {weekStartSettings.timezone}.
+        </p>
+        {weekStartError ? <p className="error">{weekStartError}</p> : null}
+        {formatDetection ? (
+          <p className="hint">
+            Detected format: {formatDetection.formatLabel}, {formatDetection.conventionLabel} (
+            {formatDetection.choice.locale}). Confidence {Math.round(formatDetection.confidence * 100)}% (
+            {formatDetection.parsedLines} of {formatDetection.sampledLines} sampled lines parsed)
+            {formatDetection.ambiguous ? "; another date convention fits these lines equally well." : "."}
+          </p>
+        ) : null}
         <p className="hint">
           Loaded users: {canonicalUsers.length}. In-scope lines: {parsedLines.length}. Unresolved lines: {unresolved.length}
           . File: {fileName || "None"}.
@@ -941,16 +1687,116 @@ export function WizardPage(): JSX.Element {
         parsedLines={parsedLines}
         currentIssueIndex={currentIssueIndex}
         canonicalNames={canonicalUsers}
-        canonicalBosses={bosses.map((boss) => boss.boss)}
+        canonicalBosses={[...new Set(bosses.map((boss) => boss.boss))]}
+        canonicalModifiers={modifiers}
         onEditLine={handleEditLine}
         onCheckLine={handleCheckLine}
         onDiscardLine={handleDiscardLine}
         onAddBoss={handleAddBoss}
         onAddBossAlias={handleAddBossAlias}
         onAddNameAlias={handleAddNameAlias}
+        onAddModifier={handleAddModifier}
+        canEditSetup={hasRole(role, "admin")}
         onNextIssue={handleNextIssue}
       />
 
+      <section className="card">
+        <h3>Adjustments</h3>
+        <p className="hint">
+          Points for week {weekId || "N/A"} from outside the timers file, such as guild events, penalties or officer
+          grants. They are added to member totals when the week is saved.
+        </p>
+        {adjustmentDrafts.length > 0 ? (
+          <div className="admin-table-head four-col">
+            <span>Member</span>
+            <span>Points</span>
+            <span>Reason</span>
+            <span />
+          </div>
+        ) : null}
+        {adjustmentDrafts.map((draft, idx) => (
+          <div className="admin-table-row four-col" key={`adjustment-${idx}`}>
+            <input
+              list="adjustment-members"
+              value={draft.name}
+              onChange={(event) =>
+                setAdjustmentDrafts((prev) => {
+                  const next = [...prev];
+                  next[idx] = { ...next[idx], name: event.target.value };
+                  return next;
+                })
+              }
+              placeholder="Member"
+              disabled={!hasRole(role, "recorder")}
+            />
+            <input
+              type="number"
+              step="any"
+              value={draft.points}
+              onChange={(event) =>
+                setAdjustmentDrafts((prev) => {
+                  const next = [...prev];
+                  next[idx] = { ...next[idx], points: event.target.value };
+                  return next;
+                })
+              }
+              placeholder="-5"
+              disabled={!hasRole(role, "recorder")}
+            />
+            <input
+              value={draft.reason}
+              onChange={(event) =>
+                setAdjustmentDrafts((prev) => {
+                  const next = [...prev];
+                  next[idx] = { ...next[idx], reason: event.target.value };
+                  return next;
+                })
+              }
+              placeholder="Guild event"
+              disabled={!hasRole(role, "recorder")}
+            />
+            <button
+              type="button"
+              onClick={() => setAdjustmentDrafts((prev) => prev.filter((_, candidate) => candidate !== idx))}
+              disabled={!hasRole(role, "recorder")}
+            >
+              Remove
+            </button>
+          </div>
+        ))}
+        <datalist id="adjustment-members">
+          {canonicalUsers.map((user) => (
+            <option key={user} value={user} />
+          ))}
+        </datalist>
+        {adjustmentErrors.map((message) => (
+          <p className="error" key={message}>
+            {message}
+          </p>
+        ))}
+        <div className="actions-row">
+          <button
+            type="button"
+            onClick={() => setAdjustmentDrafts((prev) => [...prev, { name: "", points: "", reason: "" }])}
+            disabled={!hasRole(role, "recorder")}
+          >
+            Add Adjustment
+          </button>
+          <button
+            type="button"
+            onClick={applyAdjustments}
+            disabled={
+              busy ||
+              !hasRole(role, "recorder") ||
+              adjustmentErrors.length > 0 ||
+              adjustmentsKey !== currentAdjustmentsKey()
+            }
+          >
+            Save Adjustments
+          </button>
+        </div>
+      </section>
+
       <section className="card">
         <h3>Exports</h3>
         <div className="actions-row">
@@ -963,15 +1809,22 @@ export function WizardPage(): JSX.Element {
           <button
             type="button"
             disabled={resultRows.length === 0}
-            onClick={() => exportFullCsv(resultRows, weekId, bossColumns)}
+            onClick={() => exportFullCsv(resultRows, weekId, bossColumns, activityTiers)}
           >
             Export Full CSV (Counts)
           </button>
           <button type="button" disabled={rawLines.length === 0} onClick={() => exportCorrectedFile(rawLines, weekId)}>
             Export Corrected TXT
           </button>
+          <button type="button" disabled={!hasSetupLoaded || busy} onClick={exportBoard}>
+            Export Board Snapshot
+          </button>
         </div>
         <p className="hint">Auto-calculates when all issues are resolved (or discarded).</p>
+        <p className="hint">
+          The board snapshot feeds the public <Link to="/board">leaderboard</Link>: host board.json next to the app, or
+          link to #/board?src=&lt;url&gt;, and members can view it without signing in.
+        </p>
       </section>
 
       <section className="card">
@@ -988,16 +1841,105 @@ export function WizardPage(): JSX.Element {
           <button type="button" onClick={() => loadStoredWeekView(selectedStoredWeek)} disabled={!selectedStoredWeek}>
             Load Week
           </button>
-          <button type="button" onClick={() => deleteStoredWeek(selectedStoredWeek)} disabled={!selectedStoredWeek}>
-            Delete Week
+          <button
+            type="button"
+            onClick={() => prepareRecalculation(selectedStoredWeek)}
+            disabled={!selectedStoredWeek || busy || !hasRole(role, "recorder")}
+          >
+            Recalculate
           </button>
-          <Link to="/admin">Open Admin</Link>
+          {hasRole(role, "admin") ? (
+            <>
+              <button
+                type="button"
+                onClick={() => deleteStoredWeek(selectedStoredWeek)}
+                disabled={!selectedStoredWeek}
+              >
+                Delete Week
+              </button>
+              <Link to="/admin">Open Admin</Link>
+            </>
+          ) : null}
         </div>
+        {recalcPreview ? (
+          <div className="stack">
+            <p className="hint">
+              Recalculated week {recalcPreview.week.weekId} from {recalcPreview.acceptedLines.length} retained line(s)
+              with current aliases, bosses and config.
+            </p>
+            {recalcPreview.diff.length === 0 ? (
+              <p>No member totals change.</p>
+            ) : (
+              <div className="table-wrap">
+                <table>
+                  <thead>
+                    <tr>
+                      <th>Name</th>
+                      <th>Before</th>
+                      <th>After</th>
+                      <th>Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recalcPreview.diff.map((row) => (
+                      <tr key={row.name}>
+                        <td>{row.name}</td>
+                        <td>{formatPoints(row.before)}</td>
+                        <td>{formatPoints(row.after)}</td>
+                        <td>
+                          {row.after - row.before > 0 ? "+" : ""}
+                          {formatPoints(row.after - row.before)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+            <div className="actions-row">
+              <button type="button" onClick={() => saveRecalculation()} disabled={busy}>
+                Save Recalculated Week
+              </button>
+              <button type="button" onClick={() => setRecalcPreview(null)} disabled={busy}>
+                Discard
+              </button>
+            </div>
+          </div>
+        ) : null}
       </section>
 
       <section className="card">
         <h3>Weekly Chart</h3>
-        <WeekTable rows={resultRows} bossColumns={bossColumns} />
+        {timelineSource && resultRows.length > 0 ? (
+          <p className="hint">Click a member to list the kills behind their total.</p>
+        ) : null}
+        {resultRows.some((row) => row.balance !== 0 || row.spent !== 0) ? (
+          <p className="hint">
+            Spent comes from the Spending tab (WeekId, Name, Points, Note). Spending added or edited there is applied to
+            balances the next time any week is saved.
+          </p>
+        ) : null}
+        <WeekTable
+          rows={resultRows}
+          bossColumns={bossColumns}
+          tiers={activityTiers}
+          streakLabel={streakLabel(streakSettingsFromConfig(config))}
+          selectedName={timelineMember}
+          onSelectRow={
+            timelineSource
+              ? (name) => setTimelineMember((previous) => (previous === name ? "" : name))
+              : undefined
+          }
+        />
+        {timelineSource && timelineMember ? (
+          <KillTimeline
+            name={timelineMember}
+            entries={timelineEntries}
+            timezone={timelineSource.timezone}
+            adjustmentPoints={resultRows.find((row) => row.name === timelineMember)?.adjustmentPoints}
+            onClose={() => setTimelineMember("")}
+          />
+        ) : null}
       </section>
 
     </main>
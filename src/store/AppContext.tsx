@@ -1,18 +1,79 @@
-import { createContext, useContext, useEffect, useMemo, useState, type ReactNode } from "react";
-import type { AuthState, WizardSetup } from "../types";
+import { createContext, useContext, useEffect, useMemo, useRef, useState, type ReactNode } from "react";
+import { renewGoogleAccessToken } from "../lib/googleAuth";
+import { setAccessTokenRefresher } from "../lib/sheets";
+import type { AuthState, Role, WizardSetup } from "../types";
 
 type AppContextValue = {
   auth: AuthState | null;
   setAuth: (auth: AuthState | null) => void;
   setup: WizardSetup | null;
   setSetup: (setup: WizardSetup | null) => void;
+  role: Role | null;
+  setAccess: (dataSpreadsheetId: string, role: Role | null) => void;
+  reauthPending: boolean;
+  continueReauth: () => Promise<void>;
+  cancelReauth: () => void;
+};
+
+// The Allowlist lives in the data sheet, so a resolved role only holds for that account and sheet.
+type AccessGrant = {
+  email: string;
+  dataSpreadsheetId: string;
+  role: Role | null;
+};
+
+type ReauthWaiter = {
+  resolve: (accessToken: string) => void;
+  reject: (error: Error) => void;
 };
 
 const AppContext = createContext<AppContextValue | undefined>(undefined);
 const SETUP_STORAGE_KEY = "dkauto.setup";
+const CLIENT_ID = import.meta.env.VITE_GOOGLE_WEB_CLIENT_ID as string;
 
 export function AppProvider({ children }: { children: ReactNode }): JSX.Element {
   const [auth, setAuth] = useState<AuthState | null>(null);
+  const [reauthWaiter, setReauthWaiter] = useState<ReauthWaiter | null>(null);
+  const [access, setAccessGrant] = useState<AccessGrant | null>(null);
+  const authRef = useRef(auth);
+  authRef.current = auth;
+
+  // A 401 from Sheets renews the token in place: pages stay mounted, so wizard and resolver state survive.
+  useEffect(() => {
+    setAccessTokenRefresher(async () => {
+      const current = authRef.current;
+      if (!current) {
+        throw new Error("Google session expired. Sign in again.");
+      }
+      let accessToken: string;
+      try {
+        const renewed = await renewGoogleAccessToken(CLIENT_ID, current.email, false);
+        setAuth({ ...current, accessToken: renewed.accessToken, expiresAt: renewed.expiresAt });
+        accessToken = renewed.accessToken;
+      } catch {
+        accessToken = await new Promise<string>((resolve, reject) => setReauthWaiter({ resolve, reject }));
+      }
+      return accessToken;
+    });
+    return () => setAccessTokenRefresher(null);
+  }, []);
+
+  // Try a quiet renewal when the token is about to lapse; if the browser blocks it, the next 401 prompts instead.
+  useEffect(() => {
+    if (!auth) {
+      return;
+    }
+    const timer = window.setTimeout(() => {
+      renewGoogleAccessToken(CLIENT_ID, auth.email, false)
+        .then((renewed) => {
+          if (authRef.current?.email === auth.email) {
+            setAuth({ ...auth, accessToken: renewed.accessToken, expiresAt: renewed.expiresAt });
+          }
+        })
+        .catch(() => undefined);
+    }, Math.max(0, auth.expiresAt - Date.now()));
+    return () => window.clearTimeout(timer);
+  }, [auth]);
   const [setup, setSetup] = useState<WizardSetup | null>(() => {
     if (typeof window === "undefined") {
       return null;
@@ -39,15 +100,47 @@ export function AppProvider({ children }: { children: ReactNode }): JSX.Element
     window.localStorage.setItem(SETUP_STORAGE_KEY, JSON.stringify(setup));
   }, [setup]);
 
-  const value = useMemo(
-    () => ({
+  const value = useMemo(() => {
+    async function continueReauth(): Promise<void> {
+      const current = authRef.current;
+      if (!reauthWaiter || !current) {
+        return;
+      }
+      const renewed = await renewGoogleAccessToken(CLIENT_ID, current.email, true);
+      setAuth({ ...current, accessToken: renewed.accessToken, expiresAt: renewed.expiresAt });
+      setReauthWaiter(null);
+      reauthWaiter.resolve(renewed.accessToken);
+    }
+
+    function cancelReauth(): void {
+      reauthWaiter?.reject(new Error("Google session expired and re-authentication was cancelled."));
+      setReauthWaiter(null);
+    }
+
+    function setAccess(dataSpreadsheetId: string, role: Role | null): void {
+      const email = authRef.current?.email.toLowerCase() || "";
+      setAccessGrant({ email, dataSpreadsheetId: dataSpreadsheetId.trim(), role });
+    }
+
+    const role =
+      access &&
+      access.email === auth?.email.toLowerCase() &&
+      access.dataSpreadsheetId === setup?.dataSpreadsheetId.trim()
+        ? access.role
+        : null;
+
+    return {
       auth,
       setAuth,
       setup,
-      setSetup
-    }),
-    [auth, setup]
-  );
+      setSetup,
+      role,
+      setAccess,
+      reauthPending: reauthWaiter !== null,
+      continueReauth,
+      cancelReauth
+    };
+  }, [auth, setup, access, reauthWaiter]);
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
 }
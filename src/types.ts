@@ -6,6 +6,14 @@ export type TabSchema = {
 export type AuthState = {
   email: string;
   accessToken: string;
+  expiresAt: number;
+};
+
+export type Role = "viewer" | "recorder" | "admin";
+
+export type AllowlistEntry = {
+  email: string;
+  role: Role;
 };
 
 export type WizardSetup = {
@@ -19,6 +27,26 @@ export type WizardSetup = {
 export type BossConfig = {
   boss: string;
   points: number;
+  effectiveFrom: string;
+};
+
+export type ModifierEffect = "bonus" | "multiplier" | "override";
+
+export type ModifierConfig = {
+  synonym: string;
+  effect: ModifierEffect;
+  value: number;
+};
+
+/**
+ * One activity band. The tier applies from `minPoints` upwards, or strictly above it when `aboveMin` is set (written
+ * ">4" in the sheet); a blank minimum makes it the catch-all lowest tier.
+ */
+export type ActivityTier = {
+  name: string;
+  minPoints: number | null;
+  aboveMin?: boolean;
+  color: string;
 };
 
 export type AliasRow = {
@@ -50,21 +78,137 @@ export type ParsedLine = {
   bossCanonical?: string;
   pointsBonus: number;
   pointsMultiplier: number;
+  pointsOverride?: number;
+  /** Modifier synonyms found on the boss token, as written, e.g. ["fail"]. */
+  modifiers: string[];
   addNames: string[];
   subtractNames: string[];
   issues: ParseIssue[];
 };
 
+/** One kill as it counted for a single member: subtracted kills ("not" lists) carry negative points. */
+export type KillTimelineEntry = {
+  lineNumber: number;
+  timestampUtcMillis?: number;
+  boss: string;
+  modifiers: string[];
+  points: number;
+  author: string;
+  subtracted: boolean;
+};
+
 export type WeekSummaryRow = {
   name: string;
   totalPoints: number;
   activityLevel: string;
   streak: number;
+  longestStreak: number;
   last3WeeksTotal: number;
+  adjustmentPoints: number;
+  carriedBalance: number;
+  spent: number;
+  balance: number;
   bossPoints: Record<string, number>;
   bossCounts: Record<string, number>;
 };
 
+/** Points granted or deducted outside the timers file, e.g. guild events, penalties or officer grants. */
+export type WeekAdjustment = {
+  name: string;
+  points: number;
+  reason: string;
+};
+
+export type BalanceSettings = {
+  decayPercent: number;
+  minimum: number;
+};
+
+/** One member's running balance for a week: the decayed carry-over plus that week's total, less what they spent. */
+export type BalanceRow = {
+  weekId: string;
+  name: string;
+  carried: number;
+  earned: number;
+  spent: number;
+  balance: number;
+};
+
+/** Points a member spent on loot, entered by officers in the Spending tab against the week of the purchase. */
+export type SpendingRow = {
+  weekId: string;
+  name: string;
+  points: number;
+  note: string;
+};
+
+/** How a fractional per-kill award is rounded; `decimals` keeps that many places and is ignored by the other modes. */
+export type RoundingMode = "ceil" | "floor" | "half_up" | "half_even" | "decimals";
+
+export type RoundingSettings = {
+  mode: RoundingMode;
+  decimals: number;
+};
+
+/**
+ * How `Streak` counts: consecutive weeks at the same tier, with any points, or at or above `minTier`. A week missing
+ * from a member's history always breaks the streak.
+ */
+export type StreakMode = "same_tier" | "any_points" | "min_tier";
+
+export type StreakSettings = {
+  mode: StreakMode;
+  minTier: string;
+};
+
+export type WeekStartSettings = {
+  weekday: number;
+  hour: number;
+  timezone: string;
+};
+
+export type HistoryArchiveMode = "off" | "tabs" | "spreadsheet";
+
+export type HistoryRetention = {
+  maxWeeks: number | null;
+  archive: HistoryArchiveMode;
+  archiveSpreadsheetId: string;
+};
+
+export type DataRevision = {
+  revision: number;
+  updatedBy: string;
+  updatedUtc: string;
+  note: string;
+  scope: string;
+};
+
+export type PendingWeekWrite = {
+  action: "save" | "delete";
+  weekId: string;
+  startedUtc: string;
+  archiveSpreadsheetId?: string;
+  archiveRowCounts?: Record<string, number>;
+};
+
+export type AuditAction =
+  | "save_week"
+  | "recalculate_week"
+  | "delete_week"
+  | "add_alias"
+  | "add_boss"
+  | "add_modifier"
+  | "admin_save";
+
+export type AuditEntry = {
+  timestampUtc: string;
+  email: string;
+  action: AuditAction;
+  target: string;
+  before: string;
+  after: string;
+};
+
 export type WeekBounds = {
   startUtcMillis: number;
   endUtcMillis: number;